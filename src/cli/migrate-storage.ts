@@ -0,0 +1,57 @@
+// migrate-storage: move bridge data from pre-unified locations into the data directory (bun run migrate-storage)
+import { join } from 'path';
+import { homedir } from 'os';
+import { loadEnvFile } from '../lib/env-file';
+import { getStoragePaths, migrateLegacyStorage } from '../services/storage-paths';
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_SKIPPED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: bun run migrate-storage [--dry-run]
+
+Moves sessions, channel config, usage, the database, the audit log, session manifests
+and downloaded Slack files from the locations older versions used into the data directory
+($BRIDGE_DATA_DIR, default $PAI_DIR/bridge/data). Stop the bridge first.
+
+Existing files are never overwritten; those entries are reported as skipped.
+
+Exit codes: 0 ok (or nothing to move), 1 some entries skipped, 2 usage`;
+
+/**
+ * Run the migration; resolves to the process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  if (argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  const unknown = argv.filter((arg) => arg !== '--dry-run');
+  if (unknown.length > 0) {
+    console.error(`Unknown argument: ${unknown[0]}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const dryRun = argv.includes('--dry-run');
+  const steps = migrateLegacyStorage({ dryRun });
+  console.log(`Data directory: ${getStoragePaths().dataDir}`);
+
+  if (steps.length === 0) {
+    console.log('Nothing to migrate.');
+    return EXIT_OK;
+  }
+
+  for (const step of steps) {
+    console.log(`${step.action.padEnd(10)} ${step.what}: ${step.from} -> ${step.to}${step.reason ? ` (${step.reason})` : ''}`);
+  }
+
+  const skipped = steps.filter((step) => step.action === 'skipped').length;
+  console.log(`\n${steps.length - skipped} ${dryRun ? 'to move' : 'moved'}, ${skipped} skipped`);
+  return skipped > 0 ? EXIT_SKIPPED : EXIT_OK;
+}
+
+if (import.meta.main) {
+  loadEnvFile(join(process.env.PAI_DIR || join(homedir(), '.claude'), '.env'));
+  process.exit(await main(process.argv.slice(2)));
+}
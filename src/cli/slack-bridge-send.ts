@@ -0,0 +1,252 @@
+// slack-bridge-send: command-line client for the Bridge API (run via bin/slack-bridge-send)
+import { createBridgeClient, BridgeApiError, BridgeUnreachableError, type BridgeClient } from '../lib/bridge-client';
+import type { DeskCallMode } from '../types/desk';
+import type { AskKind } from '../types/bridge-api';
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_API_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_UNREACHABLE = 3;
+const EXIT_UNANSWERED = 4;
+
+const USAGE = `Usage: slack-bridge-send [--session <id>] [--url <url>] <command> [args]
+
+Commands:
+  file <path> [comment]                    Upload a file to the thread
+  message <text>                           Post a message
+  update <ts> <text>                       Edit a message posted with "message"
+  react <emoji> [ts] [--remove]            React to a message (default: the one that started the run)
+  progress [percent] [status]              Show progress on the "Processing..." message
+  history [--cursor <c>] [--limit <n>]     Read the thread, oldest first
+  download <fileId>                        Download a file shared in the thread
+  ask <question> [option...]               Ask and wait for the answer
+      [--select | --text] [--placeholder <p>] [--timeout <seconds>]
+  call-desk <desk> <message>               Call another desk
+      [--mode delegate|consult|pipeline] [--then <desk,desk>]
+  health                                   Check the bridge is up
+  openapi                                  Print the OpenAPI document
+
+Any command accepts --json to read the request body from stdin instead of args, e.g.
+  echo '{"text":"Done","blocks":[...]}' | slack-bridge-send message --json
+
+Defaults: --session from $BRIDGE_SESSION_ID, --url from $BRIDGE_API_URL,
+token from $BRIDGE_API_TOKEN (all set for each bridge-spawned Claude run).
+
+Exit codes: 0 ok, 1 API error, 2 usage, 3 bridge unreachable, 4 question not answered`;
+
+// Flags that take a value
+const VALUE_FLAGS = new Set(['--session', '--url', '--cursor', '--limit', '--placeholder', '--timeout', '--mode', '--then']);
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+/**
+ * Split argv into command, positional args and flags ("--" ends flag parsing)
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-h') {
+      flags.set('--help', true);
+    } else if (arg.startsWith('--')) {
+      if (VALUE_FLAGS.has(arg)) {
+        if (i + 1 >= argv.length) throw new UsageError(`${arg} needs a value`);
+        flags.set(arg, argv[++i]);
+      } else {
+        flags.set(arg, true);
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command: positional.shift(), positional, flags };
+}
+
+/**
+ * Read a JSON object from stdin (for --json)
+ */
+async function readStdinJson(): Promise<Record<string, unknown>> {
+  const text = await Bun.stdin.text();
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new UsageError('--json: stdin is not valid JSON');
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new UsageError('--json: stdin must be a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function requireArgs(positional: string[], count: number, usage: string): void {
+  if (positional.length < count) throw new UsageError(`Usage: slack-bridge-send ${usage}`);
+}
+
+function flagValue(flags: Map<string, string | true>, name: string): string | undefined {
+  const value = flags.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === '' || Number.isNaN(n)) throw new UsageError(`${name} must be a number`);
+  return n;
+}
+
+/**
+ * Build the request from args (or stdin) and call the endpoint
+ */
+async function runCommand(client: BridgeClient, args: ParsedArgs): Promise<unknown> {
+  const { command, positional: p, flags } = args;
+  const json = flags.has('--json') ? await readStdinJson() : null;
+
+  switch (command) {
+    case 'file':
+      if (json) return client.request('POST', '/send-file', json);
+      requireArgs(p, 1, 'file <path> [comment]');
+      return client.sendFile({ filePath: p[0], comment: p.slice(1).join(' ') || undefined });
+
+    case 'message':
+      if (json) return client.request('POST', '/send-message', json);
+      requireArgs(p, 1, 'message <text>');
+      return client.sendMessage({ text: p.join(' ') });
+
+    case 'update':
+      if (json) return client.request('POST', '/update-message', json);
+      requireArgs(p, 2, 'update <ts> <text>');
+      return client.updateMessage({ ts: p[0], text: p.slice(1).join(' ') });
+
+    case 'react':
+      if (json) return client.request('POST', '/react', json);
+      requireArgs(p, 1, 'react <emoji> [ts] [--remove]');
+      return client.react({ emoji: p[0], ts: p[1], remove: flags.has('--remove') || undefined });
+
+    case 'progress': {
+      if (json) return client.request('POST', '/progress', json);
+      requireArgs(p, 1, 'progress [percent] [status]');
+      // A leading number is the percentage; everything else is the status
+      const hasPercent = /^\d+(\.\d+)?%?$/.test(p[0]);
+      const percent = hasPercent ? parseFloat(p[0]) : undefined;
+      const status = (hasPercent ? p.slice(1) : p).join(' ') || undefined;
+      return client.progress({ percent, status });
+    }
+
+    case 'history':
+      if (json) return client.request('GET', '/thread-history', json);
+      return client.threadHistory({
+        cursor: flagValue(flags, '--cursor'),
+        limit: parseNumber(flagValue(flags, '--limit'), '--limit'),
+      });
+
+    case 'download':
+      if (json) return client.request('POST', '/download-file', json);
+      requireArgs(p, 1, 'download <fileId>');
+      return client.downloadFile({ fileId: p[0] });
+
+    case 'ask': {
+      if (json) return client.request('POST', '/ask', json);
+      requireArgs(p, 1, 'ask <question> [option...] [--select | --text] [--timeout <seconds>]');
+      const type: AskKind | undefined = flags.has('--select') ? 'select' : flags.has('--text') ? 'text' : undefined;
+      return client.ask({
+        question: p[0],
+        options: p.length > 1 ? p.slice(1) : undefined,
+        type,
+        placeholder: flagValue(flags, '--placeholder'),
+        timeoutSeconds: parseNumber(flagValue(flags, '--timeout'), '--timeout'),
+      });
+    }
+
+    case 'call-desk': {
+      if (json) return client.request('POST', '/call-desk', json);
+      requireArgs(p, 2, 'call-desk <desk> <message> [--mode delegate|consult|pipeline] [--then <desk,desk>]');
+      const then = flagValue(flags, '--then');
+      const mode = (flagValue(flags, '--mode') || (then ? 'pipeline' : 'consult')) as DeskCallMode;
+      return client.callDesk({
+        targetDesk: p[0],
+        message: p.slice(1).join(' '),
+        mode,
+        pipelineNext: then ? then.split(',').map((s) => s.trim()).filter(Boolean) : undefined,
+      });
+    }
+
+    case 'health':
+      return client.health();
+
+    case 'openapi':
+      return client.openapi();
+
+    default:
+      throw new UsageError(command ? `Unknown command: ${command}\n\n${USAGE}` : USAGE);
+  }
+}
+
+/**
+ * Run the CLI; resolves to the process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_USAGE;
+  }
+
+  if (args.flags.has('--help') || !args.command) {
+    console.log(USAGE);
+    return args.command ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const client = createBridgeClient({
+    url: flagValue(args.flags, '--url'),
+    sessionId: flagValue(args.flags, '--session'),
+  });
+
+  if (!process.env.BRIDGE_API_TOKEN && !['health', 'openapi'].includes(args.command)) {
+    console.error('slack-bridge-send: no BRIDGE_API_TOKEN (only available inside a bridge-spawned Claude run)');
+    return EXIT_USAGE;
+  }
+
+  try {
+    const result = await runCommand(client, args);
+    console.log(JSON.stringify(result, null, args.command === 'openapi' ? 2 : undefined));
+
+    const answered = (result as { answered?: boolean }).answered;
+    return args.command === 'ask' && answered === false ? EXIT_UNANSWERED : EXIT_OK;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      return EXIT_USAGE;
+    }
+    if (error instanceof BridgeApiError) {
+      console.error(`slack-bridge-send: ${error.message}`);
+      console.log(JSON.stringify(error.body));
+      return EXIT_API_ERROR;
+    }
+    if (error instanceof BridgeUnreachableError) {
+      console.error(`slack-bridge-send: ${error.message}`);
+      return EXIT_UNREACHABLE;
+    }
+    throw error;
+  }
+}
+
+if (import.meta.main) {
+  process.exit(await main(process.argv.slice(2)));
+}
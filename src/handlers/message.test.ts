@@ -0,0 +1,248 @@
+// End-to-end tests for handleMessage: recorded stream-json fixtures replayed against a stubbed Slack client
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { WebClient } from '@slack/web-api';
+
+// Point every path the handler touches (data dir, desks, kb) at a scratch directory before the modules load
+const scratchDir = mkdtempSync(join(tmpdir(), 'bridge-message-test-'));
+process.env.PAI_DIR = scratchDir;
+process.env.BRIDGE_DATA_DIR = join(scratchDir, 'data');
+
+// A desk without mentions, reachable only when a trigger or desk call pins it
+mkdirSync(join(scratchDir, 'MEMORY', 'desks'), { recursive: true });
+writeFileSync(join(scratchDir, 'MEMORY', 'desks', 'ops.yaml'), 'slug: ops\nname: Ops\ndescription: On-call desk\n');
+
+// Two desks for inter-desk calls through #agent-comms
+for (const slug of ['backend', 'docs']) {
+  writeFileSync(
+    join(scratchDir, 'MEMORY', 'desks', `${slug}.yaml`),
+    `slug: ${slug}\nname: ${slug}\ndescription: ${slug} desk\nrouting:\n  mentions: ["@${slug}"]\n  channel: null\n`
+  );
+}
+process.env.AGENT_COMMS_CHANNEL = 'C0COMMS';
+
+const { handleMessage } = await import('./message');
+const { ReplayExecutor, setExecutor } = await import('../services/executor');
+const { setSlackClient } = await import('../services/slack');
+const { getSession } = await import('../services/session');
+const { closeDatabase } = await import('../services/database');
+const { callDesk } = await import('../services/desk-comms');
+
+const FIXTURES = join(import.meta.dir, '__fixtures__');
+const CHANNEL = 'C0TEST';
+const COMMS_CHANNEL = 'C0COMMS';
+
+interface SlackCall {
+  method: 'postMessage' | 'update' | 'reactions.add' | 'reactions.remove';
+  channel: string;
+  ts?: string;
+  thread_ts?: string;
+  text?: string;
+  blocks?: any[];
+  name?: string;
+}
+
+let calls: SlackCall[] = [];
+let nextTs = 1;
+
+/**
+ * Minimal WebClient stand-in that records every call
+ */
+const slackStub = {
+  chat: {
+    postMessage: async (args: any) => {
+      const ts = `9000.${String(nextTs++).padStart(6, '0')}`;
+      calls.push({ method: 'postMessage', ...args, ts });
+      return { ok: true, channel: args.channel, ts };
+    },
+    update: async (args: any) => {
+      calls.push({ method: 'update', ...args });
+      return { ok: true };
+    },
+    getPermalink: async (args: any) => ({ ok: true, permalink: `https://slack.test/${args.channel}/${args.message_ts}` }),
+  },
+  reactions: {
+    add: async (args: any) => {
+      calls.push({ method: 'reactions.add', channel: args.channel, ts: args.timestamp, name: args.name });
+      return { ok: true };
+    },
+    remove: async (args: any) => {
+      calls.push({ method: 'reactions.remove', channel: args.channel, ts: args.timestamp, name: args.name });
+      return { ok: true };
+    },
+  },
+} as unknown as WebClient;
+
+let messageCounter = 0;
+
+/**
+ * A new top-level message (its own thread) with a unique ts
+ */
+function newMessage(text: string, threadTs?: string, deskSlug?: string) {
+  const ts = `1700000000.${String(++messageCounter).padStart(6, '0')}`;
+  return { type: 'message', text, user: 'U0TEST', channel: CHANNEL, ts, thread_ts: threadTs, deskSlug };
+}
+
+function replay(fixture: string): void {
+  setExecutor(new ReplayExecutor(join(FIXTURES, fixture), { speed: fixture === 'slow.jsonl' ? 1 : 0 }));
+}
+
+const posts = () => calls.filter((c) => c.method === 'postMessage');
+const updates = () => calls.filter((c) => c.method === 'update');
+const reactionsAdded = (ts: string) => calls.filter((c) => c.method === 'reactions.add' && c.ts === ts).map((c) => c.name);
+
+beforeAll(() => {
+  setSlackClient(slackStub);
+});
+
+beforeEach(() => {
+  calls = [];
+});
+
+afterAll(() => {
+  setSlackClient(null);
+  closeDatabase();
+  rmSync(scratchDir, { recursive: true, force: true });
+});
+
+describe('handleMessage with a replayed run', () => {
+  test('posts the final response and marks the message done', async () => {
+    replay('success.jsonl');
+    const message = newMessage('Is the build green?');
+
+    await handleMessage(message);
+
+    const [processing, response] = posts();
+    expect(processing.text).toBe(':thinking_face: Processing...');
+    expect(processing.thread_ts).toBe(message.ts);
+    expect(response.text).toBe('Hello! The build is *green*.');
+    expect(updates().at(-1)?.text).toMatch(/^:white_check_mark: Completed in/);
+    expect(reactionsAdded(message.ts)).toEqual(['hourglass_flowing_sand', 'white_check_mark']);
+  });
+
+  test('keeps the bridge session ID (recorded IDs are rewritten)', async () => {
+    replay('success.jsonl');
+    const message = newMessage('Hello');
+
+    await handleMessage(message);
+
+    const session = getSession(CHANNEL, message.ts);
+    expect(session).not.toBeNull();
+    expect(session!.sessionId).not.toBe('recorded-session');
+  });
+
+  test('a pinned desk applies even when it has no mentions', async () => {
+    replay('success.jsonl');
+    const message = newMessage('Check the disk alerts', undefined, 'ops');
+
+    await handleMessage(message);
+
+    expect(getSession(CHANNEL, message.ts)?.deskSlug).toBe('ops');
+  });
+
+  test('posts a notification per tool call, then the answer', async () => {
+    replay('tool-use.jsonl');
+    const message = newMessage('Run the tests');
+
+    await handleMessage(message);
+
+    expect(posts().slice(1).map((c) => c.text)).toEqual([
+      ':eyes: Reading `package.json`',
+      ':computer: Running command...',
+      'All 3 tests pass.',
+    ]);
+  });
+
+  test('renders AskUserQuestion once as buttons and waits for the answer', async () => {
+    replay('ask-user-question.jsonl');
+    const message = newMessage('Deploy it');
+
+    await handleMessage(message);
+
+    const questions = posts().filter((c) => c.text === 'Which environment should I deploy to?');
+    expect(questions).toHaveLength(1);
+    const buttons = questions[0].blocks!.find((b) => b.type === 'actions').elements;
+    expect(buttons.map((b: any) => b.value)).toEqual(['Q1: staging', 'Q1: production']);
+    expect(updates().at(-1)?.text).toMatch(/^:hourglass: Waiting for your answers/);
+    expect(reactionsAdded(message.ts)).toContain('question');
+    expect(posts().some((c) => c.text === 'Waiting for your answer.')).toBe(false);
+  });
+
+  test('explains a failed run with a retry button', async () => {
+    replay('error.jsonl');
+    const message = newMessage('Summarize the incident');
+
+    await handleMessage(message);
+
+    const explanation = posts().at(-1)!;
+    expect(explanation.text).toMatch(/login on the bridge host has expired/);
+    const actions = explanation.blocks!.find((b) => b.type === 'actions').elements;
+    expect(actions[0].text.text).toBe('Retry');
+    expect(updates().at(-1)?.text).toBe(':x: Failed');
+    expect(reactionsAdded(message.ts)).toContain('x');
+  });
+
+  test('reports a watchdog timeout and offers to continue', async () => {
+    replay('timeout.jsonl');
+    const message = newMessage('Analyse everything');
+
+    await handleMessage(message);
+
+    const notice = posts().at(-1)!;
+    expect(notice.text).toMatch(/^:alarm_clock: I stopped this request because Claude produced no output/);
+    const actions = notice.blocks!.find((b) => b.type === 'actions').elements;
+    expect(actions[0].text.text).toBe('Continue');
+    expect(updates().at(-1)?.text).toMatch(/^:alarm_clock: Stopped after/);
+    expect(reactionsAdded(message.ts)).toContain('alarm_clock');
+  });
+
+  test('queues a second message in the same thread until the first run finishes', async () => {
+    replay('slow.jsonl');
+    const first = newMessage('First question');
+    const second = newMessage('Follow-up', first.ts);
+
+    const firstRun = handleMessage(first);
+    await Bun.sleep(20); // Let the first run start
+    const secondRun = handleMessage(second);
+    await Promise.all([firstRun, secondRun]);
+
+    const texts = posts().map((c) => c.text);
+    expect(texts).toContain(":hourglass: Queued (position 2) — I'll pick this up when the current request finishes.");
+    expect(texts.filter((t) => t === 'Done after a pause.')).toHaveLength(2);
+    expect(reactionsAdded(second.ts)).toEqual(['hourglass', 'hourglass_flowing_sand', 'white_check_mark']);
+    expect(calls.some((c) => c.method === 'reactions.remove' && c.ts === second.ts && c.name === 'hourglass')).toBe(true);
+  });
+});
+
+describe('inter-desk calls with replayed runs', () => {
+  test('a two-desk pipeline runs each stage in its own thread and session', async () => {
+    replay('success.jsonl');
+    const caller = newMessage('Design the refunds API');
+    const token = {
+      token: 'test-token',
+      sessionId: 'caller-session',
+      channelId: CHANNEL,
+      threadTs: caller.ts,
+      endpoints: ['/call-desk'],
+      issuedAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+    };
+
+    const { status, response } = await callDesk(
+      { targetDesk: 'backend', mode: 'pipeline', pipelineNext: ['docs'], message: 'Design the refunds API, then document it' },
+      token
+    );
+
+    expect(status).toBe(200);
+    expect(response.ok).toBe(true);
+    expect(response.response).toBe('Hello! The build is **green**.');
+
+    const stageHeader = posts().find((c) => c.channel === COMMS_CHANNEL && !c.thread_ts && c.text?.startsWith(':arrow_right:'));
+    expect(stageHeader?.text).toContain('Stage 2/2');
+    expect(getSession(COMMS_CHANNEL, response.commsThreadTs!)?.deskSlug).toBe('backend');
+    expect(getSession(COMMS_CHANNEL, stageHeader!.ts!)?.deskSlug).toBe('docs');
+    expect(posts().filter((c) => c.channel === COMMS_CHANNEL && c.text?.startsWith(':hourglass: Queued'))).toHaveLength(0);
+  });
+});
@@ -1,6 +1,13 @@
 // Handle incoming Slack messages
-import { getOrCreateSession, getSession, setSessionVerbose, updateSessionId } from '../services/session';
-import { executeClaudeStreaming, extractText, type StreamEvent, type ContentBlock } from '../services/claude';
+import { getOrCreateSession, getSession, setSessionVerbose, updateSessionActivity, updateSessionId, type SessionMapping } from '../services/session';
+import { closeSession } from '../services/session-lifecycle';
+import { buildExpiredSessionBlocks, checkDeskSessionLimit, isSessionExpired, type ExpiredSessionChoice } from '../services/session-expiry';
+import { extractText, getResultCost, toTokenBreakdown, countBillableTokens, ClaudeTimeoutError } from '../services/claude';
+import { ClaudeRunError, describeClaudeError } from '../services/claude-errors';
+import { getExecutor } from '../services/executor';
+import { resolveModelChain, executeWithFallback, setThreadModel, applyPendingThreadModel, MODEL_CHOICES, SET_MODEL_PREFIX } from '../services/model-selection';
+import { setThreadOutputStyle, applyPendingThreadStyle, resolveOutputStyle, isOutputStyle, SET_STYLE_PREFIX } from '../services/output-styles';
+import { parseDirectives } from '../lib/directives';
 import { postMessage, addReaction, removeReaction, getToolEmoji, MessageUpdater, updateMessage } from '../services/slack';
 import { splitForSlack, markdownToSlack, stripSystemReminders } from '../lib/markdown-to-slack';
 import { getChannelConfig, isChannelEnabled } from '../services/channel-config';
@@ -10,14 +17,28 @@ import { buildGuardrailedPrompt, validateMessage, buildRejectionMessage, buildRa
 import { getFileWatcher, getPendingFiles, clearPendingFiles } from '../services/file-watcher';
 import { uploadFilesToThread, filterAllowedFiles } from '../services/file-uploader';
 import { getDesksForMessage, removeDeskMentions } from '../services/desk-router';
-import { createDeskManifest } from '../services/session-manifest';
-import { downloadMessageFiles, buildFilePrefix, cleanupSessionFiles } from '../services/slack-files';
+import { getDeskBySlug } from '../services/desk-loader';
+import { getAgentCommsChannel, resolvePendingConsultation } from '../services/desk-comms';
+import { copyManifest, createDeskManifest } from '../services/session-manifest';
+import { downloadMessageFiles, buildFilePrefix } from '../services/slack-files';
+import { registerJob, unregisterJob, getJob, cancelJob, CANCEL_JOB_ACTION } from '../services/job-registry';
+import { enqueueThreadWork } from '../services/thread-queue';
+import { acquireWorker } from '../services/worker-pool';
 import type { DeskDefinition, DeskRouteResult } from '../types/desk';
-import type { SlackFile } from '../types/slack';
+import type { SlackFile, SlackBlock } from '../types/slack';
+import type { StreamEvent, ToolUseBlock, TokenUsage } from '../types/stream';
+import { OUTPUT_STYLES } from '../types/config';
 
 const MAX_SLACK_MESSAGE_LENGTH = 3500;
 
-interface SlackMessage {
+// Progress reports are coalesced to at most one Slack update per interval
+const PROGRESS_MIN_INTERVAL_MS = 1500;
+
+// Default execution limits (overridden per channel and per desk)
+const DEFAULT_TIMEOUT_SECONDS = parseInt(process.env.BRIDGE_TIMEOUT_SECONDS || '1800', 10);
+const DEFAULT_IDLE_TIMEOUT_SECONDS = parseInt(process.env.BRIDGE_IDLE_TIMEOUT_SECONDS || '600', 10);
+
+export interface SlackMessage {
   type: string;
   subtype?: string;
   text: string;
@@ -27,8 +48,16 @@ interface SlackMessage {
   thread_ts?: string;
   bot_id?: string;
   files?: SlackFile[];
+  /** Route to this desk regardless of @mentions (synthetic messages from desk calls) */
+  deskSlug?: string;
 }
 
+// Messages that had to wait in the thread queue (key: "channelId:ts")
+const queuedMessages: Set<string> = new Set();
+
+// Messages held until the thread answers the expired-session prompt (key: "channelId:threadTs")
+const expiredSessionMessages: Map<string, SlackMessage> = new Map();
+
 /**
  * Handle an incoming Slack message
  */
@@ -58,18 +87,109 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
     }
   }
 
+  // A plain "stop" reply cancels the run in progress for this thread
+  if (/^(stop|cancel)$/i.test(text.trim())) {
+    const job = getJob(channel, threadTs);
+    if (job) {
+      cancelJob(job, user);
+      await addReaction(channel, ts, 'octagonal_sign');
+      return;
+    }
+  }
+
+  // Inline directives (e.g. "!model opus") apply to the whole thread
+  const { text: remainingText, directives } = parseDirectives(text);
+  if (directives.showModelPicker) {
+    await postModelPicker(channel, threadTs);
+  }
+  if (directives.model !== undefined) {
+    setThreadModel(channel, threadTs, directives.model);
+    await addReaction(channel, ts, 'gear');
+  }
+  const requestedStyle = directives.outputStyle;
+  if (requestedStyle === null || isOutputStyle(requestedStyle)) {
+    setThreadOutputStyle(channel, threadTs, requestedStyle);
+    await addReaction(channel, ts, 'art');
+  } else if (directives.showStylePicker || requestedStyle) {
+    await postStylePicker(channel, threadTs); // No argument, or an unknown style name
+  }
+  const hadDirectives = directives.showModelPicker || directives.model !== undefined
+    || directives.showStylePicker || directives.outputStyle !== undefined;
+  if (hadDirectives) {
+    if (!remainingText && !message.files?.length) return;
+    message = { ...message, text: remainingText };
+  }
+
+  // Serialize runs within the thread: a second message waits for the first to finish
+  // (concurrent --resume on the same session corrupts the transcript)
+  const mergeQueued = getChannelConfig(channel).mergeQueuedMessages ?? false;
+  await enqueueThreadWork(`${channel}:${threadTs}`, message, processMessage, {
+    merge: mergeQueued ? mergeQueuedMessages : undefined,
+    onQueued: async (position) => {
+      queuedMessages.add(`${channel}:${ts}`);
+      await addReaction(channel, ts, 'hourglass');
+      await postMessage(
+        channel,
+        `:hourglass: Queued (position ${position}) — I'll pick this up when the current request finishes.`,
+        threadTs,
+        true
+      );
+    },
+    onMerged: async () => {
+      await addReaction(channel, ts, 'heavy_plus_sign');
+    },
+  });
+}
+
+/**
+ * Fold a follow-up message into a queued message that hasn't started yet
+ */
+function mergeQueuedMessages(queued: SlackMessage, incoming: SlackMessage): SlackMessage {
+  const files = [...(queued.files || []), ...(incoming.files || [])];
+  return {
+    ...queued,
+    subtype: files.length > 0 ? 'file_share' : queued.subtype,
+    text: `${queued.text}\n\n${incoming.text}`,
+    files: files.length > 0 ? files : undefined,
+  };
+}
+
+/**
+ * Run a (possibly merged) message through Claude — called by the thread queue
+ */
+async function processMessage(message: SlackMessage): Promise<void> {
+  const { channel, text, user, ts, thread_ts } = message;
+  const threadTs = thread_ts || ts;
+
+  // Drop the queued indicator now that this message is running
+  if (queuedMessages.delete(`${channel}:${ts}`)) {
+    await removeReaction(channel, ts, 'hourglass');
+  }
+
   console.log(`[Handler] Message from ${user} in ${channel}: ${text.slice(0, 50)}...`);
   if (message.files?.length) {
     console.log(`[Handler] Message has ${message.files.length} file(s): ${message.files.map(f => `${f.name} (${f.mimetype})`).join(', ')}`);
   }
 
-  // Route to desks based on @mentions
-  const deskRoutes = getDesksForMessage(text);
-  const hasDesks = deskRoutes.length > 0 && deskRoutes[0].matchedMention !== '';
+  // Route to desks based on @mentions (or the desk a desk call pinned)
+  const pinnedDesk = message.deskSlug ? getDeskBySlug(message.deskSlug) : null;
+  const deskRoutes = pinnedDesk
+    ? [{ desk: pinnedDesk, matchedMention: pinnedDesk.routing.mentions[0] || '' }]
+    : getDesksForMessage(text);
+  // A pinned desk applies even when it has no mentions; otherwise only a matched mention routes
+  const hasDesks = pinnedDesk !== null || (deskRoutes.length > 0 && deskRoutes[0].matchedMention !== '');
 
   if (hasDesks) {
     console.log(`[Handler] Desk routing: ${deskRoutes.map(r => r.desk.slug).join(', ')}`);
   }
+  const primaryDesk = hasDesks ? deskRoutes[0].desk : null;
+
+  // An expired session waits for the thread to choose: start fresh or resume anyway
+  const existingSession = getSession(channel, threadTs);
+  if (existingSession && isSessionExpired(existingSession)) {
+    await holdForExpiredSession(message, existingSession);
+    return;
+  }
 
   // Check if channel has team mode config
   const channelConfig = getChannelConfig(channel);
@@ -128,8 +248,26 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
     console.log(`[Handler] Using guardrailed prompt for ${getCategoryDisplayName(classificationResult.category)} task`);
   }
 
+  // New desk sessions are refused while the desk is at its session limit
+  if (primaryDesk && !getSession(channel, threadTs)) {
+    const limit = checkDeskSessionLimit(primaryDesk);
+    if (!limit.allowed) {
+      console.log(`[Handler] Desk ${primaryDesk.slug} at its session limit (${limit.active}/${limit.limit})`);
+      await postMessage(
+        channel,
+        `:no_entry: The *${primaryDesk.name}* desk already has ${limit.active} active session${limit.active === 1 ? '' : 's'} (its limit is ${limit.limit}). Try again later, or continue in one of its existing threads.`,
+        threadTs
+      );
+      return;
+    }
+  }
+
   // Get or create session for this thread
-  const { session, isNew } = getOrCreateSession(channel, threadTs, user);
+  const { session, isNew } = getOrCreateSession(channel, threadTs, user, primaryDesk?.slug);
+  if (isNew) {
+    applyPendingThreadModel(session);
+    applyPendingThreadStyle(session);
+  }
   console.log(`[Handler] Session: ${session.sessionId} (${isNew ? 'new' : 'existing'})`);
 
   // Resolve verbosity: session override > channel config > default (true)
@@ -151,21 +289,39 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
     }
   }
 
-  // Post initial "thinking" message
+  // Post initial "thinking" message (with a Stop button for cancelling the run)
   const initialMessage = await postMessage(
     channel,
     ':thinking_face: Processing...',
-    threadTs
+    threadTs,
+    false,
+    buildProcessingBlocks(':thinking_face: Processing...', `${channel}:${threadTs}`)
   );
 
+  // Register the run so it can be cancelled via 🛑, the Stop button, or a "stop" reply
+  const job = registerJob({
+    channelId: channel,
+    threadTs,
+    sessionId: session.sessionId,
+    userId: user,
+    messageTs: ts,
+    processingTs: initialMessage.ts,
+  });
+
   // Add thinking reaction to user's message
   await addReaction(channel, ts, 'hourglass_flowing_sand');
 
   // Create message updater for streaming
   let updater = new MessageUpdater(channel, initialMessage.ts);
 
+  // Progress reports from the run (POST /progress) rewrite the "Processing..." message, keeping the Stop button
+  job.progress = new MessageUpdater(channel, initialMessage.ts, PROGRESS_MIN_INTERVAL_MS, (text) => buildProcessingBlocks(text, job.key));
+
   const startTime = Date.now();
   let costUsd = 0;
+  // Token usage per assistant message ID; replaced by the result event's totals when present
+  const messageUsage: Map<string, TokenUsage> = new Map();
+  let resultUsage: TokenUsage | undefined;
   let uploadedFileIds: string[] = [];
 
   // Set up file watcher if auto-upload is enabled for this channel
@@ -177,12 +333,30 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
   }
 
   // Create session manifest for desk-routed sessions
-  const primaryDesk = hasDesks ? deskRoutes[0].desk : null;
   if (primaryDesk && isNew) {
     createDeskManifest(session.sessionId, primaryDesk);
     console.log(`[Handler] Created manifest for desk: ${primaryDesk.slug}`);
   }
 
+  let releaseWorker: (() => void) | null = null;
+  let claudeSessionId: string | undefined;
+
+  // Model for this run: thread override > desk > channel > default, then fallbacks
+  const modelChain = resolveModelChain(session.model, primaryDesk, channelConfig);
+  let modelUsed = modelChain[0];
+  console.log(`[Handler] Model chain: ${modelChain.join(' -> ')}`);
+
+  // Response format: thread override > desk > channel > default
+  const outputStyle = resolveOutputStyle(session.outputStyle, primaryDesk, channelConfig);
+
+  // Resolve execution limits: desk > channel > default
+  const timeoutSeconds = primaryDesk?.execution?.timeout_seconds
+    ?? channelConfig.timeoutSeconds
+    ?? DEFAULT_TIMEOUT_SECONDS;
+  const idleTimeoutSeconds = primaryDesk?.execution?.idle_timeout_seconds
+    ?? channelConfig.idleTimeoutSeconds
+    ?? DEFAULT_IDLE_TIMEOUT_SECONDS;
+
   try {
     let currentTurnText = '';
     let turnCount = 0;
@@ -191,14 +365,51 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
     let currentMsgTs = initialMessage.ts; // Track which message we're updating
     let askedQuestions = false; // Track if AskUserQuestion was posted (dedup across events)
 
-    // Execute Claude and stream responses
-    let claudeSessionId: string | undefined;
-    for await (const event of executeClaudeStreaming(messageToSend, {
+    // Wait for a worker slot (global, per-channel, and per-desk limits)
+    let waitingNotice: Promise<void> | null = null;
+    releaseWorker = await acquireWorker({
+      key: job.key,
+      channelId: channel,
+      deskSlug: primaryDesk?.slug,
+      channelLimit: channelConfig.maxConcurrent,
+      deskLimit: primaryDesk?.persistence.max_concurrent,
+      signal: job.controller.signal,
+      onWaiting: (ahead) => {
+        const waitText = `:hourglass: Waiting for a free worker (${ahead} ahead)...`;
+        waitingNotice = updateMessage(channel, initialMessage.ts, waitText, true, buildProcessingBlocks(waitText, job.key));
+        return waitingNotice;
+      },
+    });
+    if (waitingNotice && !job.controller.signal.aborted) {
+      await (waitingNotice as Promise<void>).catch(() => {});
+      await updateMessage(
+        channel,
+        initialMessage.ts,
+        ':thinking_face: Processing...',
+        true,
+        buildProcessingBlocks(':thinking_face: Processing...', job.key)
+      );
+    }
+
+    // Execute Claude and stream responses (falling back to other models on overload)
+    const executeOptions = {
       resumeId: isNew ? undefined : session.sessionId,
       sessionId: isNew ? session.sessionId : undefined,
       desk: primaryDesk || undefined,
       verbose,
-    })) {
+      outputStyle,
+      userId: user,
+      channelId: channel,
+      threadTs,
+      signal: job.controller.signal,
+      timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+      idleTimeoutMs: idleTimeoutSeconds > 0 ? idleTimeoutSeconds * 1000 : undefined,
+    };
+    const onFallback = async (from: string, to: string) => {
+      modelUsed = to;
+      await postMessage(channel, `:warning: \`${from}\` is overloaded or rate-limited — retrying with \`${to}\``, threadTs, true);
+    };
+    for await (const event of executeWithFallback(getExecutor(), messageToSend, executeOptions, modelChain, onFallback)) {
       // Capture Claude Code's actual session ID from init event
       if (event.type === 'system' && event.subtype === 'init' && event.session_id) {
         claudeSessionId = event.session_id;
@@ -206,6 +417,8 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
         if (event.session_id !== session.sessionId) {
           console.warn(`[Handler] Session ID mismatch! Bridge: ${session.sessionId}, Claude: ${event.session_id}`);
           updateSessionId(channel, threadTs, event.session_id);
+          // Keep the desk boundaries with the stored ID, so resumed runs still find them
+          copyManifest(session.sessionId, event.session_id);
           session.sessionId = event.session_id; // Update local ref too
         }
       }
@@ -213,16 +426,19 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
       await processStreamEvent(event, updater, initialMessage, channel, toolsUsed);
 
       // Post tool activity as separate messages in the thread
-      if (event.type === 'assistant' && event.message?.content) {
+      if (event.type === 'assistant') {
         const content = event.message.content;
-        const toolBlocks = content.filter((b: ContentBlock) => b.type === 'tool_use');
+        if (event.message.usage) {
+          messageUsage.set(event.message.id || `msg_${messageUsage.size}`, event.message.usage);
+        }
+        const toolBlocks = content.filter((b): b is ToolUseBlock => b.type === 'tool_use');
         // Only extract text if there are NO tool blocks and we're not waiting for question answers
         const newText = (toolBlocks.length === 0 && !askedQuestions) ? extractText(content) : '';
 
         console.log(`[Handler] Assistant event: ${toolBlocks.length} tools, ${newText.length} chars text`);
 
         // Deduplicate AskUserQuestion across the entire stream (not just per-event)
-        const uniqueToolBlocks = toolBlocks.filter((b: any) => {
+        const uniqueToolBlocks = toolBlocks.filter((b) => {
           const name = b.name || 'unknown';
           if (name === 'AskUserQuestion') {
             if (askedQuestions) return false; // Already posted questions — skip duplicate
@@ -232,9 +448,9 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
 
         // Post tool use notifications as individual messages
         for (const tool of uniqueToolBlocks) {
-          const toolName = (tool as any).name || 'Tool';
+          const toolName = tool.name || 'Tool';
           const emoji = getToolEmoji(toolName);
-          const toolInput = (tool as any).input || {};
+          const toolInput = (tool.input || {}) as Record<string, any>;
 
           // Special handling: AskUserQuestion → render as Slack buttons
           if (toolName === 'AskUserQuestion' && toolInput.questions) {
@@ -359,7 +575,8 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
 
       // Capture cost and final text from result event
       if (event.type === 'result') {
-        if (event.cost_usd) costUsd = event.cost_usd;
+        costUsd = getResultCost(event);
+        if (event.usage) resultUsage = event.usage;
         // The result event contains the final response text
         if (event.result && !currentTurnText) {
           currentTurnText = event.result;
@@ -368,20 +585,33 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
       }
     }
 
+    job.progress.cleanup(); // No progress updates over the final status
+
     // Finalize: update processing message to done, post final response as new message
     const finalText = currentTurnText || updater.getText();
+    const cancelled = job.controller.signal.aborted;
 
-    if (askedQuestions) {
+    if (cancelled) {
+      // Run was killed from Slack — don't post a partial response
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+      const cancelledBy = job.cancelledBy === 'admin'
+        ? 'an admin'
+        : job.cancelledBy === 'timeout' ? 'the consultation timeout' : `<@${job.cancelledBy}>`;
+      await updateMessage(channel, initialMessage.ts, `:octagonal_sign: Cancelled by ${cancelledBy} after ${duration}s`, true, []);
+      await removeReaction(channel, ts, 'hourglass_flowing_sand');
+      await addReaction(channel, ts, 'octagonal_sign');
+      console.log(`[Handler] Run cancelled by ${job.cancelledBy}`);
+    } else if (askedQuestions) {
       // Waiting for user to answer questions — don't finalize
       const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      await updateMessage(channel, initialMessage.ts, `:hourglass: Waiting for your answers... (${duration}s)`, true);
+      await updateMessage(channel, initialMessage.ts, `:hourglass: Waiting for your answers... (${duration}s)`, true, []);
       await removeReaction(channel, ts, 'hourglass_flowing_sand');
       await addReaction(channel, ts, 'question');
       console.log(`[Handler] Finalize skipped — waiting for question answers`);
     } else {
       // Normal completion
       const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      await updateMessage(channel, initialMessage.ts, `:white_check_mark: Completed in ${duration}s`, true);
+      await updateMessage(channel, initialMessage.ts, `:white_check_mark: Completed in ${duration}s`, true, []);
 
       console.log(`[Handler] Finalize: finalText=${finalText?.length || 0} chars, turns=${turnCount}`);
 
@@ -405,10 +635,15 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
       // Remove thinking reaction, add checkmark
       await removeReaction(channel, ts, 'hourglass_flowing_sand');
       await addReaction(channel, ts, 'white_check_mark');
+
+      // A desk consultation in #agent-comms is waiting on this answer
+      if (channel === getAgentCommsChannel() && resolvePendingConsultation(threadTs, finalText || '')) {
+        console.log(`[Handler] Resolved pending consultation in ${threadTs}`);
+      }
     }
 
-    // Upload any files generated during execution
-    if (isTeamMode && channelConfig.autoUploadAssets) {
+    // Upload any files generated during execution (skipped for cancelled runs)
+    if (isTeamMode && channelConfig.autoUploadAssets && !cancelled) {
       fileWatcher.clearActiveSession();
 
       // Small delay to catch any final file writes
@@ -442,28 +677,46 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
       }
     }
 
-    // Record usage for team mode
+    // Record usage for team mode (partial usage for cancelled runs)
     if (isTeamMode && classificationResult) {
+      const tokens = toTokenBreakdown(resultUsage ?? sumUsage(messageUsage.values()));
       recordUsage({
         userId: user,
         channelId: channel,
         timestamp: new Date().toISOString(),
         category: classificationResult.category,
-        tokensUsed: 0, // TODO: extract from Claude response if available
+        tokensUsed: countBillableTokens(tokens),
+        tokens,
         costUsd,
+        model: modelUsed,
         sessionId: session.sessionId,
         filesUploaded: uploadedFileIds,
         duration: Date.now() - startTime,
       });
-      console.log(`[Handler] Usage recorded: $${costUsd.toFixed(4)}, ${Date.now() - startTime}ms, ${uploadedFileIds.length} files`);
+      console.log(`[Handler] Usage recorded: $${costUsd.toFixed(4)}, ${tokens.input}/${tokens.output} in/out tokens (${tokens.cacheRead} cache read), ${Date.now() - startTime}ms, ${uploadedFileIds.length} files`);
     }
 
   } catch (error) {
+    job.progress.cleanup();
+    if (error instanceof ClaudeTimeoutError) {
+      await handleTimeout(error, channel, threadTs, ts, initialMessage.ts, startTime, !!claudeSessionId);
+      return;
+    }
+    if (error instanceof ClaudeRunError) {
+      await handleRunError(error, channel, threadTs, ts, initialMessage.ts, text);
+      return;
+    }
+
     console.error('[Handler] Error:', error);
 
-    // Update message with error
-    updater.setText(`:x: Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    await updater.flush();
+    // Update message with error (and drop the Stop button)
+    await updateMessage(
+      channel,
+      initialMessage.ts,
+      `:x: Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      false,
+      []
+    ).catch((e) => console.error('[Handler] Failed to post error:', e));
 
     // Remove thinking reaction, add error reaction
     await removeReaction(channel, ts, 'hourglass_flowing_sand');
@@ -471,6 +724,9 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
 
   } finally {
     updater.cleanup();
+    job.progress.cleanup();
+    releaseWorker?.();
+    unregisterJob(job);
     // Always clear file watcher session
     if (isTeamMode && channelConfig.autoUploadAssets) {
       fileWatcher.clearActiveSession();
@@ -479,6 +735,204 @@ export async function handleMessage(message: SlackMessage): Promise<void> {
   }
 }
 
+/**
+ * Hold a message for an expired session and ask the thread how to continue
+ * (later messages are folded into the held one until the thread answers)
+ */
+async function holdForExpiredSession(message: SlackMessage, session: SessionMapping): Promise<void> {
+  const key = `${session.channelId}:${session.threadTs}`;
+  const held = expiredSessionMessages.get(key);
+  expiredSessionMessages.set(key, held ? mergeQueuedMessages(held, message) : message);
+  if (held) return;
+
+  console.log(`[Handler] Session ${session.sessionId} expired; asking the thread how to continue`);
+  const { text, blocks } = buildExpiredSessionBlocks(session);
+  await postMessage(session.channelId, text, session.threadTs, true, blocks);
+}
+
+/**
+ * Apply the thread's answer to the expired-session prompt, then run the held message
+ */
+export async function handleExpiredSessionChoice(
+  channel: string,
+  threadTs: string,
+  choice: ExpiredSessionChoice
+): Promise<void> {
+  const key = `${channel}:${threadTs}`;
+  const held = expiredSessionMessages.get(key);
+  expiredSessionMessages.delete(key);
+
+  const session = getSession(channel, threadTs);
+  if (!session || !isSessionExpired(session)) {
+    if (held) await handleMessage(held);
+    return; // Already answered
+  }
+
+  if (choice === 'fresh') {
+    closeSession(session, 'fresh');
+  } else {
+    updateSessionActivity(channel, threadTs);
+    // The expiry sweep may have removed the manifest already
+    const desk = session.deskSlug ? getDeskBySlug(session.deskSlug) : null;
+    if (desk) createDeskManifest(session.sessionId, desk);
+    console.log(`[Handler] Resuming expired session ${session.sessionId}`);
+  }
+
+  await postMessage(
+    channel,
+    choice === 'fresh'
+      ? ':sparkles: Starting a fresh session for this thread.'
+      : ':arrow_forward: Resuming the previous session.',
+    threadTs,
+    true
+  );
+
+  if (held) {
+    await handleMessage(held);
+  } else {
+    await postMessage(channel, 'Send your message again to continue.', threadTs, true);
+  }
+}
+
+/**
+ * Post buttons for choosing the thread's model
+ */
+async function postModelPicker(channel: string, threadTs: string): Promise<void> {
+  const text = 'Choose a model for this thread:';
+  await postMessage(channel, text, threadTs, true, [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      elements: [...MODEL_CHOICES, 'default'].map((model) => ({
+        type: 'button' as const,
+        text: { type: 'plain_text' as const, text: model === 'default' ? 'Default' : model, emoji: true },
+        action_id: `set_model_${model}`,
+        value: `${SET_MODEL_PREFIX}${model}`,
+      })),
+    },
+  ]);
+}
+
+/**
+ * Post buttons for choosing the thread's output style
+ */
+async function postStylePicker(channel: string, threadTs: string): Promise<void> {
+  const text = 'Choose a response style for this thread:';
+  await postMessage(channel, text, threadTs, true, [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      elements: [...OUTPUT_STYLES, 'default'].map((style) => ({
+        type: 'button' as const,
+        text: { type: 'plain_text' as const, text: style === 'default' ? 'Default' : style, emoji: true },
+        action_id: `set_style_${style}`,
+        value: `${SET_STYLE_PREFIX}${style}`,
+      })),
+    },
+  ]);
+}
+
+/**
+ * Tell the thread a run was killed by the watchdog, offering to continue if the session can resume
+ */
+async function handleTimeout(
+  error: ClaudeTimeoutError,
+  channel: string,
+  threadTs: string,
+  ts: string,
+  processingTs: string,
+  startTime: number,
+  resumable: boolean
+): Promise<void> {
+  console.warn(`[Handler] ${error.message}`);
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  const limit = formatDuration(error.limitMs);
+  const reason = error.kind === 'wall'
+    ? `the run hit its ${limit} time limit`
+    : `Claude produced no output for ${limit}`;
+
+  await updateMessage(channel, processingTs, `:alarm_clock: Stopped after ${duration}s`, true, [])
+    .catch((e) => console.error('[Handler] Failed to update processing message:', e));
+
+  const text = `:alarm_clock: I stopped this request because ${reason}.`;
+  const blocks: SlackBlock[] = [{ type: 'section', text: { type: 'mrkdwn', text } }];
+  if (resumable) {
+    blocks.push({
+      type: 'actions',
+      elements: [{
+        type: 'button',
+        text: { type: 'plain_text', text: 'Continue', emoji: true },
+        action_id: `continue_${Date.now()}`,
+        value: 'Continue where you left off.',
+        style: 'primary',
+      }],
+    });
+  }
+  await postMessage(channel, text, threadTs, true, blocks);
+
+  await removeReaction(channel, ts, 'hourglass_flowing_sand');
+  await addReaction(channel, ts, 'alarm_clock');
+}
+
+/**
+ * Explain a failed Claude run in the thread, with a retry or next-step action
+ */
+async function handleRunError(
+  error: ClaudeRunError,
+  channel: string,
+  threadTs: string,
+  ts: string,
+  processingTs: string,
+  originalText: string
+): Promise<void> {
+  console.error(`[Handler] ${error.message}`);
+
+  await updateMessage(channel, processingTs, ':x: Failed', true, [])
+    .catch((e) => console.error('[Handler] Failed to update processing message:', e));
+
+  const { text, actions } = describeClaudeError(error, originalText);
+  const blocks: SlackBlock[] = [{ type: 'section', text: { type: 'mrkdwn', text } }];
+  if (actions.length > 0) {
+    blocks.push({ type: 'actions', elements: actions });
+  }
+  await postMessage(channel, text, threadTs, true, blocks)
+    .catch((e) => console.error('[Handler] Failed to post error:', e));
+
+  await removeReaction(channel, ts, 'hourglass_flowing_sand');
+  await addReaction(channel, ts, 'x');
+}
+
+/**
+ * Format milliseconds as a short human duration (e.g. "90s", "30m")
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 120) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 120) return `${minutes}m`;
+  return `${(minutes / 60).toFixed(1)}h`;
+}
+
+/**
+ * Build the "Processing..." message blocks with a Stop button
+ */
+function buildProcessingBlocks(text: string, jobKey: string): SlackBlock[] {
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      elements: [{
+        type: 'button',
+        text: { type: 'plain_text', text: 'Stop', emoji: true },
+        action_id: CANCEL_JOB_ACTION,
+        value: jobKey,
+        style: 'danger',
+      }],
+    },
+  ];
+}
+
 /**
  * Process a stream event
  */
@@ -496,23 +950,41 @@ async function processStreamEvent(
       }
       break;
 
-    case 'tool_use':
-      if (event.tool && !toolsUsed.has(event.tool)) {
-        toolsUsed.add(event.tool);
-        const emoji = getToolEmoji(event.tool);
+    case 'assistant':
+      for (const block of event.message.content) {
+        if (block.type !== 'tool_use' || toolsUsed.has(block.name)) continue;
+        toolsUsed.add(block.name);
+        const emoji = getToolEmoji(block.name);
         await addReaction(channel, responseMessage.ts, emoji);
-        console.log(`[Handler] Tool: ${event.tool}`);
+        console.log(`[Handler] Tool: ${block.name}`);
       }
       break;
 
     case 'result':
-      if (event.cost_usd) {
-        console.log(`[Handler] Cost: $${event.cost_usd.toFixed(4)}`);
-      }
+      console.log(`[Handler] Cost: $${getResultCost(event).toFixed(4)}`);
       break;
   }
 }
 
+/**
+ * Sum per-message token usage (fallback when the result event has no totals)
+ */
+function sumUsage(usages: Iterable<TokenUsage>): TokenUsage {
+  const total: Required<TokenUsage> = {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+  };
+  for (const usage of usages) {
+    total.input_tokens += usage.input_tokens ?? 0;
+    total.output_tokens += usage.output_tokens ?? 0;
+    total.cache_creation_input_tokens += usage.cache_creation_input_tokens ?? 0;
+    total.cache_read_input_tokens += usage.cache_read_input_tokens ?? 0;
+  }
+  return total;
+}
+
 /**
  * Handle @mention in a channel
  */
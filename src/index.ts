@@ -2,44 +2,38 @@
 // PAI Slack Bridge
 // Bidirectional Slack <-> Claude Code integration
 
-import { existsSync, readFileSync } from 'fs';
+// Load .env from PAI_DIR before any other module reads its settings
+import './lib/load-env';
+
 import { join } from 'path';
 import { homedir } from 'os';
-
-/**
- * Load environment variables from a .env file
- */
-function loadEnvFile(path: string): boolean {
-  if (!existsSync(path)) return false;
-
-  const content = readFileSync(path, 'utf-8');
-  for (const line of content.split('\n')) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
-    const eqIndex = trimmed.indexOf('=');
-    if (eqIndex > 0) {
-      const key = trimmed.slice(0, eqIndex);
-      const value = trimmed.slice(eqIndex + 1);
-      // Don't override existing env vars
-      if (!process.env[key]) {
-        process.env[key] = value;
-      }
-    }
-  }
-  console.log(`Loaded environment from ${path}`);
-  return true;
-}
-
-// Load .env from PAI_DIR (default: ~/.claude)
-const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
-loadEnvFile(join(paiDir, '.env'));
-
 import { App, LogLevel } from '@slack/bolt';
-import { handleMessage, handleMention } from './handlers/message';
-import { cleanupOldSessions, getSession, setSessionVerbose } from './services/session';
+import { handleMessage, handleMention, handleExpiredSessionChoice } from './handlers/message';
+import { getSession, setSessionVerbose } from './services/session';
+import { cleanupExpiredSessions, EXPIRED_SESSION_PREFIX } from './services/session-expiry';
+import { describeReclaimed, mergeReclaimReports, sweepOrphanedArtifacts } from './services/session-lifecycle';
 import { getFileWatcher } from './services/file-watcher';
 import { reloadDesks, startWatching as startDeskWatching, stopWatching as stopDeskWatching } from './services/desk-loader';
 import { startBridgeApi } from './services/bridge-api';
+import { updateMessage } from './services/slack';
+import { closeDatabase } from './services/database';
+import { getLegacyLocations, getStoragePaths, validateStorage } from './services/storage-paths';
+import { getAgentCommsChannel } from './services/desk-comms';
+import { getTriggerSources } from './services/webhook-trigger';
+import { cancelJob, findJobByMessage, getJobByKey, CANCEL_JOB_ACTION } from './services/job-registry';
+import { setThreadModel, SET_MODEL_PREFIX } from './services/model-selection';
+import { RETRY_PREFIX } from './services/claude-errors';
+import { setThreadOutputStyle, isOutputStyle, SET_STYLE_PREFIX } from './services/output-styles';
+import {
+  getAsk,
+  settleAsk,
+  answerAskWithOption,
+  buildAskModal,
+  parseAskId,
+  ASK_ACTION_PREFIX,
+  ASK_OPEN_MODAL_PREFIX,
+  ASK_MODAL_PREFIX,
+} from './services/pending-asks';
 import type { SlackFile } from './types/slack';
 
 // Validate environment
@@ -52,6 +46,7 @@ for (const envVar of requiredEnvVars) {
 }
 
 // Optional config
+const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
 const PORT = parseInt(process.env.BRIDGE_PORT || '3847', 10);
 const ALLOWED_CHANNELS = process.env.BRIDGE_ALLOWED_CHANNELS?.split(',').map(s => s.trim()).filter(Boolean) || [];
 const ALLOWED_USERS = process.env.BRIDGE_ALLOWED_USERS?.split(',').map(s => s.trim()).filter(Boolean) || [];
@@ -62,6 +57,21 @@ console.log(`  PAI_DIR: ${paiDir}`);
 console.log(`  Claude CWD: ${process.env.BRIDGE_DEFAULT_CWD || paiDir}`);
 console.log(`  Allowed channels: ${ALLOWED_CHANNELS.length ? ALLOWED_CHANNELS.join(', ') : 'all'}`);
 console.log(`  Allowed users: ${ALLOWED_USERS.length ? ALLOWED_USERS.join(', ') : 'all'}`);
+console.log(`  Agent comms channel: ${getAgentCommsChannel() || 'not set (inter-desk calls disabled)'}`);
+console.log(`  Data dir: ${getStoragePaths().dataDir}`);
+console.log(`  Database: ${getStoragePaths().dbPath}`);
+console.log(`  Trigger sources: ${getTriggerSources().join(', ') || 'none (POST /trigger disabled)'}`);
+
+// Storage must be writable before anything is persisted
+const storageProblems = validateStorage();
+if (storageProblems.length > 0) {
+  for (const problem of storageProblems) console.error(`[Storage] ${problem}`);
+  process.exit(1);
+}
+const legacyLocations = getLegacyLocations();
+if (legacyLocations.length > 0) {
+  console.warn(`[Storage] Found data in pre-unified locations (${legacyLocations.map((l) => l.from).join(', ')}). Stop the bridge and run \`bun run migrate-storage\` to move it into ${getStoragePaths().dataDir}.`);
+}
 
 // Initialize Slack app with Socket Mode
 const app = new App({
@@ -179,6 +189,33 @@ const pendingSelections: Map<string, string[]> = new Map();
 app.action(/.*/, async ({ action, body, ack }) => {
   await ack();
 
+  // Answers to POST /ask questions resolve the waiting request instead of starting a new turn
+  const actionId = (action as { action_id?: string }).action_id || '';
+  const askId = parseAskId(actionId, ASK_ACTION_PREFIX) || parseAskId(actionId, ASK_OPEN_MODAL_PREFIX);
+  if (askId) {
+    const actionBody = body as any;
+    const userId = actionBody.user?.id || 'unknown';
+    const ask = getAsk(askId);
+
+    if (ask && actionId.startsWith(ASK_OPEN_MODAL_PREFIX)) {
+      await app.client.views.open({ trigger_id: actionBody.trigger_id, view: buildAskModal(ask) as any })
+        .catch((e) => console.error('[Bridge] Failed to open ask modal:', e));
+      return;
+    }
+
+    const value = action.type === 'static_select'
+      ? (action as any).selected_option?.value
+      : (action as any).value;
+    if (!ask || !answerAskWithOption(askId, value, userId)) {
+      await app.client.chat.postEphemeral({
+        channel: actionBody.channel?.id,
+        user: userId,
+        text: 'This question is no longer waiting for an answer.',
+      }).catch(() => {});
+    }
+    return;
+  }
+
   if (action.type === 'button' && 'value' in action) {
     const buttonAction = action as { value: string; action_id: string };
     const messageBody = body as any;
@@ -189,9 +226,84 @@ app.action(/.*/, async ({ action, body, ack }) => {
 
     if (!channel || !threadTs || !buttonAction.value) return;
 
+    // Stop button on the "Processing..." message
+    if (buttonAction.action_id === CANCEL_JOB_ACTION) {
+      const job = getJobByKey(buttonAction.value);
+      if (job) {
+        cancelJob(job, userId || 'unknown');
+      }
+      return;
+    }
+
     console.log(`[Bridge] Button clicked: "${buttonAction.value}" by ${userId}`);
 
     try {
+      // Thread model picker
+      if (buttonAction.value.startsWith(SET_MODEL_PREFIX)) {
+        const model = buttonAction.value.slice(SET_MODEL_PREFIX.length);
+        setThreadModel(channel, threadTs, model === 'default' ? null : model);
+        await app.client.chat.postMessage({
+          channel,
+          thread_ts: threadTs,
+          text: model === 'default'
+            ? ':gear: This thread is back on the default model.'
+            : `:gear: This thread will now use *${model}*.`,
+        });
+        return;
+      }
+
+      // Thread output style picker
+      if (buttonAction.value.startsWith(SET_STYLE_PREFIX)) {
+        const style = buttonAction.value.slice(SET_STYLE_PREFIX.length);
+        setThreadOutputStyle(channel, threadTs, isOutputStyle(style) ? style : null);
+        await app.client.chat.postMessage({
+          channel,
+          thread_ts: threadTs,
+          text: isOutputStyle(style)
+            ? `:art: This thread will now use the *${style}* response style.`
+            : ':art: This thread is back on the default response style.',
+        });
+        return;
+      }
+
+      // Expired session prompt: start fresh or resume anyway
+      if (buttonAction.value.startsWith(EXPIRED_SESSION_PREFIX)) {
+        const choice = buttonAction.value.slice(EXPIRED_SESSION_PREFIX.length) === 'resume' ? 'resume' : 'fresh';
+        const msgTs = messageBody.message?.ts;
+        if (msgTs) {
+          // Replace the buttons with the choice so it can't be made twice
+          await updateMessage(
+            channel,
+            msgTs,
+            `${messageBody.message?.text || ''}\n_<@${userId}> chose to ${choice === 'fresh' ? 'start fresh' : 'resume'}._`,
+            true,
+            []
+          );
+        }
+        await handleExpiredSessionChoice(channel, threadTs, choice);
+        return;
+      }
+
+      // Retry / Continue after a failed run: re-send the original prompt
+      if (buttonAction.value.startsWith(RETRY_PREFIX)) {
+        const retryText = buttonAction.value.slice(RETRY_PREFIX.length);
+        const retryMsg = await app.client.chat.postMessage({
+          channel,
+          thread_ts: threadTs,
+          text: `:repeat: Retrying for <@${userId}>...`,
+        });
+
+        await handleMessage({
+          type: 'message',
+          text: retryText,
+          user: userId || 'unknown',
+          channel,
+          ts: retryMsg.ts || threadTs,
+          thread_ts: threadTs,
+        });
+        return;
+      }
+
       // Multi-question answer selection (Q1: ..., Q2: ...)
       if (buttonAction.value.match(/^Q\d+: /)) {
         const selections = pendingSelections.get(threadKey) || [];
@@ -294,17 +406,40 @@ app.action(/.*/, async ({ action, body, ack }) => {
   }
 });
 
+// Free-text answers to POST /ask questions
+app.view(new RegExp(`^${ASK_MODAL_PREFIX}`), async ({ ack, view, body }) => {
+  await ack();
+
+  const askId = parseAskId(view.callback_id, ASK_MODAL_PREFIX);
+  const value = view.state.values.answer?.value?.value || '';
+  if (askId && !settleAsk(askId, { answered: true, value, userId: body.user.id })) {
+    console.log(`[Bridge] Modal answer for expired ask ${askId} ignored`);
+  }
+});
+
 // Handle reaction-based verbose toggle (🤫 shushing_face)
 const VERBOSE_OFF_EMOJI = 'shushing_face';
 const VERBOSE_CONFIRM_EMOJI = 'mute';
 
-app.event('reaction_added', async ({ event }) => {
-  if (event.reaction !== VERBOSE_OFF_EMOJI) return;
+// Reaction that cancels a running job (🛑)
+const CANCEL_EMOJI = 'octagonal_sign';
 
+app.event('reaction_added', async ({ event }) => {
   const channel = event.item.type === 'message' ? (event.item as any).channel : null;
   const msgTs = event.item.type === 'message' ? (event.item as any).ts : null;
   if (!channel || !msgTs) return;
 
+  // 🛑 on the thread parent, the triggering message, or "Processing..." stops the run
+  if (event.reaction === CANCEL_EMOJI) {
+    const job = findJobByMessage(channel, msgTs);
+    if (job) {
+      cancelJob(job, event.user);
+    }
+    return;
+  }
+
+  if (event.reaction !== VERBOSE_OFF_EMOJI) return;
+
   // Look up session — the reacted message could be any message in the thread,
   // so we need to check both as a thread parent (ts) and as a thread reply (thread_ts would be on the message itself).
   // For simplicity, try the message ts as the thread key first, then check if there's a session where this is a known thread.
@@ -369,13 +504,19 @@ app.event('reaction_removed', async ({ event }) => {
   }
 });
 
-// Periodic cleanup of old sessions (every hour)
-setInterval(() => {
-  const removed = cleanupOldSessions(24);
-  if (removed > 0) {
-    console.log(`[Bridge] Cleaned up ${removed} old sessions`);
+/**
+ * Tear down expired sessions (closing long-expired ones), then remove manifest files and downloads that no session owns
+ */
+function sweepSessions(when: string): void {
+  const report = mergeReclaimReports(cleanupExpiredSessions(), sweepOrphanedArtifacts());
+  if (report.sessions > 0 || report.orphans.length > 0 || report.files > 0 || report.tokensRevoked > 0) {
+    console.log(`[Bridge] ${when} sweep: ${report.sessions} expired session(s), ${report.orphans.length} orphan(s); reclaimed ${describeReclaimed(report)}`);
   }
-}, 60 * 60 * 1000);
+}
+
+// Reconcile at startup (nothing is running yet), then every hour; TTLs come from each session's desk
+sweepSessions('Startup');
+setInterval(() => sweepSessions('Hourly'), 60 * 60 * 1000);
 
 // Start the app
 (async () => {
@@ -413,6 +554,7 @@ process.on('SIGINT', async () => {
   getFileWatcher().stop();
   stopDeskWatching();
   await app.stop();
+  closeDatabase();
   process.exit(0);
 });
 
@@ -421,5 +563,6 @@ process.on('SIGTERM', async () => {
   getFileWatcher().stop();
   stopDeskWatching();
   await app.stop();
+  closeDatabase();
   process.exit(0);
 });
@@ -0,0 +1,184 @@
+// Typed client for the Bridge API (used by slack-bridge-send; importable from other Bun scripts)
+import type { DeskCallRequest, DeskCallResponse } from '../types/desk';
+import type { ChannelConfig } from '../types/config';
+import type { ChannelUsage } from '../types/usage';
+import type {
+  AdminChannelUpdate,
+  AdminDesk,
+  AdminJob,
+  AdminUsageQuery,
+  AskRequest,
+  AskResponse,
+  DownloadFileRequest,
+  DownloadFileResponse,
+  ErrorResponse,
+  HealthResponse,
+  MessageResponse,
+  OkResponse,
+  ProgressRequest,
+  ProgressResponse,
+  ReactRequest,
+  SendFileRequest,
+  SendFileResponse,
+  SendMessageRequest,
+  ThreadHistoryQuery,
+  ThreadHistoryResponse,
+  TriggerRequest,
+  TriggerResponse,
+  UpdateMessageRequest,
+} from '../types/bridge-api';
+import type { SessionMapping } from '../services/session';
+import type { ReclaimReport } from '../services/session-lifecycle';
+import {
+  signTrigger,
+  TRIGGER_SIGNATURE_HEADER,
+  TRIGGER_SOURCE_HEADER,
+  TRIGGER_TIMESTAMP_HEADER,
+} from './trigger-signature';
+
+export interface BridgeClientOptions {
+  /** Defaults to $BRIDGE_API_URL, else http://localhost:$BRIDGE_API_PORT */
+  url?: string;
+  /** Defaults to $BRIDGE_API_TOKEN (pass BRIDGE_API_SECRET for the admin methods) */
+  token?: string;
+  /** Sent as sessionId on every request; defaults to $BRIDGE_SESSION_ID */
+  sessionId?: string;
+}
+
+/**
+ * The API answered with a non-2xx status
+ */
+export class BridgeApiError extends Error {
+  constructor(public readonly status: number, public readonly body: ErrorResponse) {
+    super(`${status}: ${body.error}`);
+    this.name = 'BridgeApiError';
+  }
+}
+
+/**
+ * The API could not be reached (bridge not running, wrong URL)
+ */
+export class BridgeUnreachableError extends Error {
+  constructor(public readonly url: string, cause: unknown) {
+    super(`Bridge API unreachable at ${url}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'BridgeUnreachableError';
+  }
+}
+
+export type BridgeClient = ReturnType<typeof createBridgeClient>;
+
+/**
+ * Create a client; inside a bridge-spawned Claude run the defaults need no options
+ */
+export function createBridgeClient(options: BridgeClientOptions = {}) {
+  const baseUrl = (options.url || process.env.BRIDGE_API_URL || `http://localhost:${process.env.BRIDGE_API_PORT || '3848'}`)
+    .replace(/\/+$/, '');
+  const token = options.token ?? process.env.BRIDGE_API_TOKEN ?? '';
+  const sessionId = options.sessionId ?? process.env.BRIDGE_SESSION_ID ?? '';
+
+  /**
+   * Call an endpoint. GET and DELETE send input as query parameters, POST and PUT as a JSON body.
+   * Session endpoints also get the sessionId; `sign` adds headers computed from the JSON body.
+   */
+  async function request<T>(
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    input: Record<string, unknown> = {},
+    options: { withSession?: boolean; sign?: (body: string) => Record<string, string> } = {}
+  ): Promise<T> {
+    const withSession = options.withSession ?? true;
+    const payload = sessionId && withSession ? { sessionId, ...input } : input;
+    let url = `${baseUrl}${path}`;
+    const init: RequestInit = { method, headers: {} as Record<string, string> };
+    const headers = init.headers as Record<string, string>;
+
+    if (token && !options.sign) headers.Authorization = `Bearer ${token}`;
+    if (method === 'GET' || method === 'DELETE') {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(payload)) {
+        if (value !== undefined && value !== null) query.set(key, String(value));
+      }
+      if (query.size > 0) url += `?${query}`;
+    } else {
+      headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(payload);
+      Object.assign(headers, options.sign?.(init.body));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new BridgeUnreachableError(baseUrl, error);
+    }
+
+    const text = await response.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = { error: text || response.statusText };
+    }
+
+    if (!response.ok) {
+      throw new BridgeApiError(response.status, body as ErrorResponse);
+    }
+    return body as T;
+  }
+
+  /** Admin endpoints take no sessionId */
+  function adminRequest<T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, input: Record<string, unknown> = {}): Promise<T> {
+    return request<T>(method, path, input, { withSession: false });
+  }
+
+  return {
+    url: baseUrl,
+    request,
+    health: () => request<HealthResponse>('GET', '/health'),
+    openapi: () => request<Record<string, unknown>>('GET', '/openapi.json'),
+    sendFile: (input: SendFileRequest) => request<SendFileResponse>('POST', '/send-file', { ...input }),
+    sendMessage: (input: SendMessageRequest) => request<MessageResponse>('POST', '/send-message', { ...input }),
+    updateMessage: (input: UpdateMessageRequest) => request<MessageResponse>('POST', '/update-message', { ...input }),
+    react: (input: ReactRequest) => request<MessageResponse>('POST', '/react', { ...input }),
+    progress: (input: ProgressRequest) => request<ProgressResponse>('POST', '/progress', { ...input }),
+    threadHistory: (query: ThreadHistoryQuery = {}) => request<ThreadHistoryResponse>('GET', '/thread-history', { ...query }),
+    downloadFile: (input: DownloadFileRequest) => request<DownloadFileResponse>('POST', '/download-file', { ...input }),
+    ask: (input: AskRequest) => request<AskResponse>('POST', '/ask', { ...input }),
+    callDesk: (input: DeskCallRequest) => request<DeskCallResponse>('POST', '/call-desk', { ...input }),
+    /** POST /trigger, signed with a BRIDGE_TRIGGER_SOURCES entry */
+    trigger: (input: TriggerRequest, source: { name: string; secret: string }) =>
+      request<TriggerResponse>('POST', '/trigger', { ...input }, {
+        withSession: false,
+        sign: (body) => {
+          const timestamp = Math.floor(Date.now() / 1000);
+          return {
+            [TRIGGER_SOURCE_HEADER]: source.name,
+            [TRIGGER_TIMESTAMP_HEADER]: String(timestamp),
+            [TRIGGER_SIGNATURE_HEADER]: signTrigger(source.secret, timestamp, body),
+          };
+        },
+      }),
+    admin: {
+      listSessions: (channelId?: string) =>
+        adminRequest<OkResponse & { sessions: (SessionMapping & { running: boolean })[] }>('GET', '/admin/sessions', { channelId }),
+      getSession: (id: string) =>
+        adminRequest<OkResponse & { session: SessionMapping; job: AdminJob | null }>('GET', `/admin/sessions/${encodeURIComponent(id)}`),
+      deleteSession: (id: string) =>
+        adminRequest<OkResponse & { sessionId: string; tokensRevoked: number; reclaimed: ReclaimReport }>('DELETE', `/admin/sessions/${encodeURIComponent(id)}`),
+      listChannels: () => adminRequest<OkResponse & { channels: ChannelConfig[] }>('GET', '/admin/channels'),
+      getChannel: (channelId: string) =>
+        adminRequest<OkResponse & { channel: ChannelConfig; configured: boolean }>('GET', `/admin/channels/${encodeURIComponent(channelId)}`),
+      updateChannel: ({ channelId, ...updates }: AdminChannelUpdate) =>
+        adminRequest<OkResponse & { channel: ChannelConfig }>('PUT', `/admin/channels/${encodeURIComponent(channelId)}`, updates),
+      deleteChannel: (channelId: string) => adminRequest<OkResponse>('DELETE', `/admin/channels/${encodeURIComponent(channelId)}`),
+      listDesks: () => adminRequest<OkResponse & { desks: AdminDesk[] }>('GET', '/admin/desks'),
+      reloadDesks: () => adminRequest<OkResponse & { desks: AdminDesk[] }>('POST', '/admin/desks/reload'),
+      usage: (query: AdminUsageQuery = {}) => adminRequest<OkResponse & Record<string, unknown>>('GET', '/admin/usage', { ...query }),
+      usageTotals: (days?: number) =>
+        adminRequest<OkResponse & { days: number; byChannel: Record<string, ChannelUsage>; byUser: Record<string, ChannelUsage> }>('GET', '/admin/usage', { days }),
+      listJobs: () => adminRequest<OkResponse & { jobs: AdminJob[] }>('GET', '/admin/jobs'),
+      cancelJob: (key: string) => adminRequest<OkResponse & { job: AdminJob }>('POST', '/admin/jobs/cancel', { key }),
+      sweep: () => adminRequest<OkResponse & { reclaimed: ReclaimReport }>('POST', '/admin/sweep'),
+    },
+  };
+}
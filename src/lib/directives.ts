@@ -0,0 +1,47 @@
+// Inline thread directives, e.g. "!model opus" to switch the model for a thread or "!style concise"
+
+export interface ThreadDirectives {
+  /** Model override: a model name, null to reset, undefined if not given */
+  model?: string | null;
+  /** "!model" with no argument — show the model picker */
+  showModelPicker?: boolean;
+  /** Output style override: a style name (unvalidated), null to reset, undefined if not given */
+  outputStyle?: string | null;
+  /** "!style" with no argument — show the style picker */
+  showStylePicker?: boolean;
+}
+
+const MODEL_DIRECTIVE = /(^|\s)!model(?:[ \t]+([\w.\-\[\]]+))?(?=\s|$)/i;
+const STYLE_DIRECTIVE = /(^|\s)!style(?:[ \t]+([\w\-]+))?(?=\s|$)/i;
+
+/**
+ * Extract directives from a message, returning the remaining text
+ */
+export function parseDirectives(text: string): { text: string; directives: ThreadDirectives } {
+  const directives: ThreadDirectives = {};
+  let remaining = text;
+
+  const modelMatch = remaining.match(MODEL_DIRECTIVE);
+  if (modelMatch) {
+    const arg = modelMatch[2]?.toLowerCase();
+    if (!arg) {
+      directives.showModelPicker = true;
+    } else {
+      directives.model = arg === 'default' || arg === 'reset' ? null : arg;
+    }
+    remaining = remaining.replace(MODEL_DIRECTIVE, '$1');
+  }
+
+  const styleMatch = remaining.match(STYLE_DIRECTIVE);
+  if (styleMatch) {
+    const arg = styleMatch[2]?.toLowerCase();
+    if (!arg) {
+      directives.showStylePicker = true;
+    } else {
+      directives.outputStyle = arg === 'default' || arg === 'reset' ? null : arg;
+    }
+    remaining = remaining.replace(STYLE_DIRECTIVE, '$1');
+  }
+
+  return { text: remaining.trim(), directives };
+}
@@ -0,0 +1,26 @@
+// .env loading for the bridge and its CLIs (existing environment variables win)
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * Load environment variables from a .env file
+ */
+export function loadEnvFile(path: string): boolean {
+  if (!existsSync(path)) return false;
+
+  const content = readFileSync(path, 'utf-8');
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const eqIndex = trimmed.indexOf('=');
+    if (eqIndex > 0) {
+      const key = trimmed.slice(0, eqIndex);
+      const value = trimmed.slice(eqIndex + 1);
+      // Don't override existing env vars
+      if (!process.env[key]) {
+        process.env[key] = value;
+      }
+    }
+  }
+  console.log(`Loaded environment from ${path}`);
+  return true;
+}
@@ -0,0 +1,104 @@
+// Minimal JSON Schema subset: enough to describe and validate Bridge API requests
+
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  example?: unknown;
+}
+
+/**
+ * Validate a value against a schema. Returns a list of problems (empty = valid).
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = 'body'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path} must be ${schema.type === 'integer' ? 'an integer' : `a${/^[aeiou]/.test(schema.type) ? 'n' : ''} ${schema.type}`}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(schema.minLength === 1 ? `${path} must not be empty` : `${path} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (schema.type === 'object' && isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) errors.push(`Missing required field: ${key}`);
+    }
+    for (const [key, propValue] of Object.entries(value)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        if (propValue !== undefined) errors.push(...validateSchema(propValue, propSchema, key));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`Unknown field: ${key}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Turn query parameters into an object typed by the schema's properties
+ * (numbers and booleans are parsed; unparseable values are left as strings to fail validation)
+ */
+export function parseQuery(params: URLSearchParams, schema: JsonSchema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, raw] of params) {
+    const type = schema.properties?.[key]?.type;
+    if ((type === 'integer' || type === 'number') && raw.trim() !== '' && !Number.isNaN(Number(raw))) {
+      result[key] = Number(raw);
+    } else if (type === 'boolean' && (raw === 'true' || raw === 'false')) {
+      result[key] = raw === 'true';
+    } else {
+      result[key] = raw;
+    }
+  }
+  return result;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,8 @@
+// Loads $PAI_DIR/.env (default: ~/.claude/.env) when imported.
+// Import this first in entry points: imports are hoisted, so a loadEnvFile call in the entry
+// module's body would run after every other module had already read its settings.
+import { join } from 'path';
+import { homedir } from 'os';
+import { loadEnvFile } from './env-file';
+
+loadEnvFile(join(process.env.PAI_DIR || join(homedir(), '.claude'), '.env'));
@@ -0,0 +1,171 @@
+// OpenAPI 3.0 document built from route definitions (the same schemas validate requests)
+import type { JsonSchema } from './json-schema';
+
+/**
+ * What the OpenAPI generator needs to know about a route
+ */
+export interface OpenApiRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** "{name}" segments are path parameters, described by input.properties[name] */
+  path: string;
+  summary: string;
+  description?: string;
+  /** Path parameters plus the request body (POST, PUT) or query parameters (GET, DELETE) */
+  input: JsonSchema;
+  /** 200 response body */
+  response: JsonSchema;
+  /** Extra error statuses beyond the common 400/401/403 */
+  errors?: Record<number, string>;
+  /** Who may call it (default: a run's session token; "signed" = trigger HMAC headers) */
+  auth?: 'public' | 'admin' | 'signed';
+}
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' }, description: 'Validation problems (400)' },
+    code: { type: 'string', description: 'Machine-readable reason, where the endpoint has one' },
+  },
+};
+
+const COMMON_ERRORS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Missing or invalid bearer token',
+  403: 'Token not valid for this endpoint or session',
+};
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+}
+
+/**
+ * Names of a route's path parameters ("/admin/sessions/{sessionId}" -> ["sessionId"])
+ */
+function getPathParams(path: string): string[] {
+  return Array.from(path.matchAll(/\{(\w+)\}/g), (m) => m[1]);
+}
+
+/**
+ * Has a request body (everything else takes query parameters)
+ */
+export function hasRequestBody(method: OpenApiRoute['method']): boolean {
+  return method === 'POST' || method === 'PUT';
+}
+
+function buildOperation(route: OpenApiRoute): Record<string, unknown> {
+  const responses: Record<string, unknown> = {
+    200: { description: 'OK', content: { 'application/json': { schema: route.response } } },
+  };
+  const errors = route.auth === 'public' ? route.errors || {} : { ...COMMON_ERRORS, ...route.errors };
+  for (const [status, description] of Object.entries(errors)) {
+    responses[status] = errorResponse(description);
+  }
+
+  const operation: Record<string, unknown> = {
+    operationId: operationId(route),
+    summary: route.summary,
+    description: route.description,
+    responses,
+  };
+
+  if (route.auth === 'public') {
+    operation.security = [];
+  } else if (route.auth === 'admin') {
+    operation.security = [{ adminAuth: [] }];
+  } else if (route.auth === 'signed') {
+    operation.security = [{ triggerSource: [], triggerTimestamp: [], triggerSignature: [] }];
+  }
+
+  const pathParams = getPathParams(route.path);
+  const required = route.input.required || [];
+  const parameters: Record<string, unknown>[] = [];
+  const bodyProperties: Record<string, JsonSchema> = {};
+
+  for (const [name, schema] of Object.entries(route.input.properties || {})) {
+    if (pathParams.includes(name)) {
+      parameters.push({ name, in: 'path', required: true, description: schema.description, schema });
+    } else if (hasRequestBody(route.method)) {
+      bodyProperties[name] = schema;
+    } else {
+      parameters.push({ name, in: 'query', required: required.includes(name), description: schema.description, schema });
+    }
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+  if (hasRequestBody(route.method)) {
+    const bodyRequired = required.filter((name) => !pathParams.includes(name));
+    const schema: JsonSchema = { ...route.input, properties: bodyProperties, required: bodyRequired.length ? bodyRequired : undefined };
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema } },
+    };
+  }
+
+  return operation;
+}
+
+/**
+ * "GET /admin/sessions/{sessionId}" -> "getAdminSessionsSessionId"; POST routes keep their plain path name
+ */
+function operationId(route: OpenApiRoute): string {
+  const name = route.path
+    .replace(/[{}]/g, '')
+    .split(/[\/.-]/)
+    .filter(Boolean)
+    .map((part, i) => (i === 0 ? part : part[0].toUpperCase() + part.slice(1)))
+    .join('');
+  return route.method === 'POST' ? name : route.method.toLowerCase() + name[0].toUpperCase() + name.slice(1);
+}
+
+/**
+ * Build an OpenAPI 3.0 document; routes use the run-token bearer scheme unless marked public or admin
+ */
+export function buildOpenApiDocument(options: {
+  title: string;
+  version: string;
+  serverUrl: string;
+  routes: OpenApiRoute[];
+}): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of options.routes) {
+    paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: buildOperation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: { title: options.title, version: options.version },
+    servers: [{ url: options.serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'The run\'s BRIDGE_API_TOKEN',
+        },
+        adminAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'BRIDGE_API_SECRET',
+        },
+        triggerSource: { type: 'apiKey', in: 'header', name: 'X-Bridge-Source', description: 'Source name from BRIDGE_TRIGGER_SOURCES' },
+        triggerTimestamp: { type: 'apiKey', in: 'header', name: 'X-Bridge-Timestamp', description: 'Unix seconds' },
+        triggerSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Bridge-Signature',
+          description: '"v1=" + hex HMAC-SHA256 of "v1:<timestamp>:<raw body>" with the source\'s secret',
+        },
+      },
+      schemas: { Error: ERROR_SCHEMA },
+    },
+  };
+}
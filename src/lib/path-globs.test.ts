@@ -0,0 +1,72 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { boundaryBaseDir, matchesBoundary, toPermissionPath } from './path-globs';
+
+// A working directory with a real "src/api" directory (existing directories match everything below them)
+const cwd = mkdtempSync(join(tmpdir(), 'bridge-path-globs-'));
+mkdirSync(join(cwd, 'src', 'api'), { recursive: true });
+
+afterAll(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe('toPermissionPath', () => {
+  test('relative paths are anchored at the cwd', () => {
+    expect(toPermissionPath('docs/guide.md', cwd)).toBe('./docs/guide.md');
+    expect(toPermissionPath('./docs/guide.md', cwd)).toBe('./docs/guide.md');
+  });
+
+  test('directories match everything below them', () => {
+    expect(toPermissionPath('src/api', cwd)).toBe('./src/api/**');
+    expect(toPermissionPath('out/build/', cwd)).toBe('./out/build/**');
+  });
+
+  test('bare names match at any depth', () => {
+    expect(toPermissionPath('.env', cwd)).toBe('**/.env');
+    expect(toPermissionPath('credentials/', cwd)).toBe('**/credentials/**');
+  });
+
+  test('home-relative paths keep their ~ prefix', () => {
+    expect(toPermissionPath('~/.ssh/', cwd)).toBe('~/.ssh/**');
+    expect(toPermissionPath('~/notes/todo.md', cwd)).toBe('~/notes/todo.md');
+  });
+
+  test('absolute paths use the // rule prefix', () => {
+    expect(toPermissionPath('/etc/hosts', cwd)).toBe('//etc/hosts');
+    expect(toPermissionPath('/var/log/', cwd)).toBe('//var/log/**');
+  });
+
+  test('globs are passed through without directory expansion', () => {
+    expect(toPermissionPath('src/**/*.ts', cwd)).toBe('./src/**/*.ts');
+    expect(toPermissionPath('*.pem', cwd)).toBe('**/*.pem');
+    expect(toPermissionPath('~/keys/*.key', cwd)).toBe('~/keys/*.key');
+  });
+});
+
+describe('boundaryBaseDir', () => {
+  test('returns the directory before the first glob segment', () => {
+    expect(boundaryBaseDir('/opt/data/**/*.csv', cwd)).toBe('/opt/data');
+    expect(boundaryBaseDir('~/shared/*', cwd)).toBe(join(homedir(), 'shared'));
+  });
+
+  test('existing directories are their own base; files use their parent', () => {
+    expect(boundaryBaseDir('src/api', cwd)).toBe(join(cwd, 'src', 'api'));
+    expect(boundaryBaseDir('/etc/hosts', cwd)).toBe('/etc');
+  });
+
+  test('bare names that are not directories have no base', () => {
+    expect(boundaryBaseDir('.env', cwd)).toBeNull();
+  });
+});
+
+describe('matchesBoundary', () => {
+  test('matches relative, bare-name, ~ and glob patterns against absolute paths', () => {
+    expect(matchesBoundary(join(cwd, 'src/api/users.ts'), ['src/api'], cwd)).toBe(true);
+    expect(matchesBoundary(join(cwd, 'deep/nested/.env'), ['.env'], cwd)).toBe(true);
+    expect(matchesBoundary(join(homedir(), '.ssh/id_rsa'), ['~/.ssh/'], cwd)).toBe(true);
+    expect(matchesBoundary('/srv/certs/site.pem', ['*.pem'], cwd)).toBe(true);
+    expect(matchesBoundary(join(cwd, 'src/web/app.ts'), ['src/api', '.env', '*.pem'], cwd)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+// Convert desk boundary globs into Claude Code permission rule paths
+import { existsSync, statSync } from 'fs';
+import { dirname, isAbsolute, resolve } from 'path';
+import { homedir } from 'os';
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * Check whether a path contains glob syntax
+ */
+export function isGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+/**
+ * Convert a boundary path into a permission rule path:
+ *   /abs/path   -> //abs/path      (absolute, per Claude Code rule syntax)
+ *   ~/path      -> ~/path          (home-relative)
+ *   .env        -> any .env below the cwd (bare names match at any depth)
+ *   src/api     -> ./src/api       (relative to the session cwd)
+ * Directories (trailing "/" or an existing directory) match everything below them.
+ */
+export function toPermissionPath(pattern: string, cwd: string): string {
+  let path = pattern.trim();
+  const explicitDir = path.endsWith('/');
+  path = path.replace(/\/+$/, '');
+
+  const isDir = explicitDir || (!isGlob(path) && isExistingDir(resolveBoundaryPath(path, cwd)));
+
+  if (isAbsolute(path)) {
+    path = `/${path}`;
+  } else if (!path.startsWith('~/')) {
+    const relative = path.replace(/^\.\//, '');
+    path = relative.includes('/') ? `./${relative}` : `**/${relative}`;
+  }
+
+  return isDir ? `${path}/**` : path;
+}
+
+/**
+ * Absolute directory a boundary path lives under (the part before any glob), or null for bare names
+ */
+export function boundaryBaseDir(pattern: string, cwd: string): string | null {
+  const path = pattern.trim().replace(/\/+$/, '');
+  if (!isAbsolute(path) && !path.startsWith('~/') && !path.replace(/^\.\//, '').includes('/')) {
+    return isExistingDir(resolve(cwd, path)) ? resolve(cwd, path) : null;
+  }
+
+  const segments = path.split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  const base = firstGlob === -1 ? path : segments.slice(0, firstGlob).join('/');
+  if (!base) return null;
+
+  const resolved = resolveBoundaryPath(base, cwd);
+  return isExistingDir(resolved) || firstGlob !== -1 ? resolved : dirname(resolved);
+}
+
+function resolveBoundaryPath(path: string, cwd: string): string {
+  if (path.startsWith('~/')) {
+    return resolve(homedir(), path.slice(2));
+  }
+  return resolve(cwd, path);
+}
+
+function isExistingDir(path: string): boolean {
+  try {
+    return existsSync(path) && statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a boundary path into absolute globs for matching real file paths
+ * (same conventions as toPermissionPath)
+ */
+export function toAbsoluteGlobs(pattern: string, cwd: string): string[] {
+  const explicitDir = pattern.trim().endsWith('/');
+  const path = pattern.trim().replace(/\/+$/, '');
+
+  // Bare names match at any depth, as the file itself or a directory containing it
+  if (!isAbsolute(path) && !path.startsWith('~/') && !path.replace(/^\.\//, '').includes('/')) {
+    const name = path.replace(/^\.\//, '');
+    return explicitDir ? [`**/${name}/**`] : [`**/${name}`, `**/${name}/**`];
+  }
+
+  const absolute = resolveBoundaryPath(path, cwd);
+  if (explicitDir || (!isGlob(absolute) && isExistingDir(absolute))) {
+    return [`${absolute}/**`];
+  }
+  return isGlob(absolute) ? [absolute, `${absolute}/**`] : [absolute];
+}
+
+/**
+ * Check whether an absolute path falls under any of the boundary patterns
+ */
+export function matchesBoundary(absolutePath: string, patterns: string[], cwd: string): boolean {
+  return patterns.some((pattern) =>
+    toAbsoluteGlobs(pattern, cwd).some((glob) => new Bun.Glob(glob).match(absolutePath))
+  );
+}
@@ -0,0 +1,15 @@
+// Minimal {{variable}} templating for prompt files
+
+export type TemplateVars = Record<string, string | number | undefined>;
+
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Replace {{name}} placeholders (unknown variables render as empty strings)
+ */
+export function renderTemplate(template: string, vars: TemplateVars): string {
+  return template
+    .replace(VARIABLE, (_, name: string) => String(vars[name] ?? ''))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,24 @@
+// Signatures for POST /trigger: HMAC-SHA256 over "v1:<timestamp>:<raw body>"
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Header names a trigger request carries */
+export const TRIGGER_SOURCE_HEADER = 'X-Bridge-Source';
+export const TRIGGER_TIMESTAMP_HEADER = 'X-Bridge-Timestamp';
+export const TRIGGER_SIGNATURE_HEADER = 'X-Bridge-Signature';
+
+/**
+ * Signature header value ("v1=<hex>") for a body sent at `timestamp` (Unix seconds)
+ */
+export function signTrigger(secret: string, timestamp: number | string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`v1:${timestamp}:${body}`).digest('hex');
+  return `v1=${digest}`;
+}
+
+/**
+ * Constant-time check of a signature header value
+ */
+export function isValidTriggerSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signTrigger(secret, timestamp, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
@@ -0,0 +1,28 @@
+// Audit log: append-only JSONL record of security-relevant Bridge API decisions
+import { appendFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { getStoragePaths } from './storage-paths';
+
+export interface AuditEvent {
+  event: string;
+  outcome: 'allowed' | 'denied';
+  sessionId?: string;
+  channelId?: string;
+  threadTs?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Append an event to audit.jsonl (failures are logged, never thrown)
+ */
+export function recordAudit(event: AuditEvent): void {
+  try {
+    const { auditLogPath } = getStoragePaths();
+    if (!existsSync(dirname(auditLogPath))) {
+      mkdirSync(dirname(auditLogPath), { recursive: true });
+    }
+    appendFileSync(auditLogPath, JSON.stringify({ timestamp: new Date().toISOString(), ...event }) + '\n');
+  } catch (error) {
+    console.error('[Audit] Failed to write audit log:', error);
+  }
+}
@@ -1,27 +1,863 @@
 // Bridge API: lightweight HTTP server for Claude-to-Slack file sending, messages, and buttons
-import { getSlackClient } from './slack';
-import { getSessionBySessionId } from './session';
-import type { SlackBlock } from '../types/slack';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getSlackClient, postMessage, updateMessage, addReaction, removeReaction, isMessageInThread } from './slack';
+import { getJob, getJobByKey, getRunningJobs, cancelJob, type RunningJob } from './job-registry';
+import { fetchThreadHistory, downloadThreadFile } from './thread-history';
+import { verifyToken, type BridgeToken } from './bridge-tokens';
+import { checkSendFile } from './file-sandbox';
+import { recordAudit } from './audit-log';
+import {
+  createAsk,
+  settleAsk,
+  buildAskBlocks,
+  ASK_DEFAULT_TIMEOUT_SECONDS,
+  ASK_MAX_TIMEOUT_SECONDS,
+  type PendingAsk,
+} from './pending-asks';
+import { callDesk } from './desk-comms';
+import { verifyTrigger, takeTriggerQuota, startTrigger, getTriggerSources } from './webhook-trigger';
+import { getAllSessions, getSessionBySessionId } from './session';
+import { cleanupExpiredSessions } from './session-expiry';
+import { closeSession, mergeReclaimReports, sweepOrphanedArtifacts } from './session-lifecycle';
+import { getAllChannels, getChannelConfig, updateChannelConfig, deleteChannelConfig } from './channel-config';
+import { getAllDesks, reloadDesks } from './desk-loader';
+import { getChannelUsageSummary, getUserUsageSummary, getUsageTotals } from './usage-tracker';
+import { validateSchema, parseQuery, type JsonSchema } from '../lib/json-schema';
+import { buildOpenApiDocument, hasRequestBody, type OpenApiRoute } from '../lib/openapi';
+import { OUTPUT_STYLES } from '../types/config';
+import type { DeskCallRequest, DeskDefinition } from '../types/desk';
+import type {
+  AdminCancelJobRequest,
+  AdminChannelParams,
+  AdminChannelUpdate,
+  AdminDesk,
+  AdminJob,
+  AdminSessionParams,
+  AdminSessionsQuery,
+  AdminUsageQuery,
+  AskKind,
+  AskRequest,
+  AskResult,
+  DownloadFileRequest,
+  ProgressRequest,
+  ReactRequest,
+  SendFileRequest,
+  SendFileResponse,
+  SendMessageRequest,
+  SessionRequest,
+  ThreadHistoryQuery,
+  TriggerRequest,
+  UpdateMessageRequest,
+} from '../types/bridge-api';
 
 const API_PORT = parseInt(process.env.BRIDGE_API_PORT || '3848', 10);
 const API_SECRET = process.env.BRIDGE_API_SECRET || '';
+const API_VERSION = '0.1.0';
+
+// Messages remembered per session for /update-message
+const MAX_POSTED_PER_SESSION = 500;
+
+// Messages each session posted through /send-message (key: sessionId)
+const postedMessages: Map<string, string[]> = new Map();
+
+/**
+ * A session endpoint: called with a run token, input validated against its schema
+ */
+interface SessionRoute<TInput = unknown> extends OpenApiRoute {
+  /** Waits on Slack users or other desks, so the idle timeout is disabled */
+  longPoll?: boolean;
+  handler: (input: TInput, token: BridgeToken, request: Request) => Promise<Response>;
+}
+
+/**
+ * Define a session route, pairing its handler with its input type. The registry holds
+ * SessionRoute<unknown>: dispatch only calls the handler with input its schema has accepted.
+ */
+function sessionRoute<TInput extends SessionRequest>(route: SessionRoute<TInput>): SessionRoute {
+  return route as SessionRoute;
+}
+
+/**
+ * An admin endpoint: called with BRIDGE_API_SECRET, never with a run token
+ */
+interface AdminRoute<TInput = unknown> extends OpenApiRoute {
+  auth: 'admin';
+  handler: (input: TInput, request: Request) => Promise<Response> | Response;
+}
+
+/**
+ * Define an admin route (held as AdminRoute<unknown>, like session routes)
+ */
+function adminRoute<TInput>(route: Omit<AdminRoute<TInput>, 'auth'>): AdminRoute {
+  return { ...route, auth: 'admin' } as AdminRoute;
+}
+
+// --- Schemas ---
+
+const SESSION_ID: JsonSchema = { type: 'string', description: 'Optional; must match the run token\'s session' };
+const BLOCKS: JsonSchema = { type: 'array', items: { type: 'object' }, maxItems: 50, description: 'Block Kit blocks' };
+const RATE_LIMITS: JsonSchema = {
+  type: 'object',
+  required: ['requestsPerHour', 'requestsPerDay', 'tokensPerDay'],
+  properties: {
+    requestsPerHour: { type: 'integer', minimum: 0 },
+    requestsPerDay: { type: 'integer', minimum: 0 },
+    tokensPerDay: { type: 'integer', minimum: 0 },
+  },
+};
+const CHANNEL_CONFIG: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    channelId: { type: 'string', minLength: 1, example: 'C0123456789' },
+    channelName: { type: 'string' },
+    enabled: { type: 'boolean' },
+    capabilities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'enabled'],
+        properties: {
+          name: { type: 'string', enum: ['copy', 'briefs', 'visuals', 'research'] },
+          enabled: { type: 'boolean' },
+          systemPromptAddition: { type: 'string' },
+          allowedSkills: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    systemPromptPrefix: { type: 'string' },
+    systemPromptSuffix: { type: 'string' },
+    blockedPatterns: { type: 'array', items: { type: 'string' } },
+    requireApproval: { type: 'boolean' },
+    rateLimits: RATE_LIMITS,
+    maxCostPerRequest: { type: 'number', minimum: 0 },
+    maxCostPerDay: { type: 'number', minimum: 0 },
+    autoUploadAssets: { type: 'boolean' },
+    allowedFileTypes: { type: 'array', items: { type: 'string' } },
+    maxFileSizeMb: { type: 'number', minimum: 0 },
+    verbose: { type: 'boolean' },
+    model: { type: 'string' },
+    fallbackModels: { type: 'array', items: { type: 'string' } },
+    maxConcurrent: { type: 'integer', minimum: 1 },
+    timeoutSeconds: { type: 'integer', minimum: 0 },
+    idleTimeoutSeconds: { type: 'integer', minimum: 0 },
+    mergeQueuedMessages: { type: 'boolean' },
+    outputStyle: { type: 'string', enum: OUTPUT_STYLES },
+  },
+};
+const SESSION_MAPPING: JsonSchema = {
+  type: 'object',
+  properties: {
+    sessionId: { type: 'string' },
+    channelId: { type: 'string' },
+    threadTs: { type: 'string' },
+    userId: { type: 'string' },
+    createdAt: { type: 'string' },
+    lastActivity: { type: 'string' },
+    verbose: { type: 'boolean' },
+    model: { type: 'string' },
+    outputStyle: { type: 'string' },
+    deskSlug: { type: 'string' },
+  },
+};
+const RECLAIM_REPORT: JsonSchema = {
+  type: 'object',
+  properties: {
+    sessions: { type: 'integer', description: 'Session mappings deleted' },
+    orphans: { type: 'array', items: { type: 'string' }, description: 'Session IDs whose files had no session' },
+    files: { type: 'integer', description: 'Files and directories removed' },
+    bytes: { type: 'integer' },
+    tokensRevoked: { type: 'integer' },
+  },
+};
+const ADMIN_JOB: JsonSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'channelId:threadTs' },
+    channelId: { type: 'string' },
+    threadTs: { type: 'string' },
+    sessionId: { type: 'string' },
+    userId: { type: 'string' },
+    startedAt: { type: 'string' },
+    cancelled: { type: 'boolean' },
+  },
+};
+const ADMIN_DESKS: JsonSchema = {
+  type: 'object',
+  properties: {
+    ok: { type: 'boolean' },
+    desks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          mentions: { type: 'array', items: { type: 'string' } },
+          channel: { type: 'string' },
+          model: { type: 'string' },
+          outputStyle: { type: 'string' },
+          isDefault: { type: 'boolean' },
+        },
+      },
+    },
+  },
+};
+const OK_TS: JsonSchema = {
+  type: 'object',
+  required: ['ok', 'ts'],
+  properties: { ok: { type: 'boolean' }, ts: { type: 'string' } },
+};
+
+// --- Routes ---
+
+const SESSION_ROUTES: SessionRoute[] = [
+  sessionRoute<SendFileRequest>({
+    method: 'POST',
+    path: '/send-file',
+    summary: 'Upload a local file to the session\'s thread',
+    description: 'The path is checked against the deny list, the desk manifest, and (in team mode) channel file rules.',
+    input: {
+      type: 'object',
+      required: ['filePath'],
+      properties: {
+        sessionId: SESSION_ID,
+        filePath: { type: 'string', minLength: 1, description: 'Absolute path', example: '/tmp/report.pdf' },
+        comment: { type: 'string' },
+      },
+    },
+    response: {
+      type: 'object',
+      required: ['ok'],
+      properties: {
+        ok: { type: 'boolean' },
+        fileId: { type: 'string', description: 'Slack file ID' },
+        permalink: { type: 'string' },
+      },
+    },
+    errors: { 403: 'Refused by the send-file sandbox', 404: 'File not found' },
+    handler: handleSendFile,
+  }),
+  sessionRoute<SendMessageRequest>({
+    method: 'POST',
+    path: '/send-message',
+    summary: 'Post a message (optionally with Block Kit blocks) to the thread',
+    input: {
+      type: 'object',
+      properties: { sessionId: SESSION_ID, text: { type: 'string' }, blocks: BLOCKS },
+    },
+    response: OK_TS,
+    handler: handleSendMessage,
+  }),
+  sessionRoute<UpdateMessageRequest>({
+    method: 'POST',
+    path: '/update-message',
+    summary: 'Edit a message this session posted with /send-message',
+    input: {
+      type: 'object',
+      required: ['ts'],
+      properties: { sessionId: SESSION_ID, ts: { type: 'string', minLength: 1 }, text: { type: 'string' }, blocks: BLOCKS },
+    },
+    response: OK_TS,
+    errors: { 403: 'The message was not posted by this session' },
+    handler: handleUpdateMessage,
+  }),
+  sessionRoute<ReactRequest>({
+    method: 'POST',
+    path: '/react',
+    summary: 'Add or remove a reaction on a message in the thread',
+    input: {
+      type: 'object',
+      required: ['emoji'],
+      properties: {
+        sessionId: SESSION_ID,
+        emoji: { type: 'string', minLength: 1, example: 'white_check_mark' },
+        ts: { type: 'string', description: 'Defaults to the message that started the run' },
+        remove: { type: 'boolean' },
+      },
+    },
+    response: OK_TS,
+    errors: { 403: 'The message is not in this session\'s thread' },
+    handler: handleReact,
+  }),
+  sessionRoute<ProgressRequest>({
+    method: 'POST',
+    path: '/progress',
+    summary: 'Show progress on the bridge\'s "Processing..." message',
+    input: {
+      type: 'object',
+      properties: {
+        sessionId: SESSION_ID,
+        percent: { type: 'number', minimum: 0, maximum: 100 },
+        status: { type: 'string', description: 'Truncated to 200 characters' },
+      },
+    },
+    response: {
+      type: 'object',
+      properties: { ok: { type: 'boolean' }, percent: { type: 'integer' }, status: { type: 'string' } },
+    },
+    errors: { 409: 'No run in progress for this thread' },
+    handler: handleProgress,
+  }),
+  sessionRoute<ThreadHistoryQuery>({
+    method: 'GET',
+    path: '/thread-history',
+    summary: 'Read the session\'s thread, oldest first (paginated)',
+    input: {
+      type: 'object',
+      properties: {
+        sessionId: SESSION_ID,
+        cursor: { type: 'string', description: 'nextCursor from the previous page' },
+        limit: { type: 'integer', minimum: 1, maximum: 200, description: 'Default 50' },
+      },
+    },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        messages: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ts: { type: 'string' },
+              postedAt: { type: 'string' },
+              userId: { type: 'string' },
+              author: { type: 'string' },
+              isBot: { type: 'boolean' },
+              text: { type: 'string' },
+              editedAt: { type: 'string' },
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    mimetype: { type: 'string' },
+                    size: { type: 'integer' },
+                    filetype: { type: 'string' },
+                  },
+                },
+              },
+              reactions: {
+                type: 'array',
+                items: { type: 'object', properties: { name: { type: 'string' }, count: { type: 'integer' } } },
+              },
+            },
+          },
+        },
+        nextCursor: { type: 'string' },
+      },
+    },
+    handler: handleThreadHistory,
+  }),
+  sessionRoute<DownloadFileRequest>({
+    method: 'POST',
+    path: '/download-file',
+    summary: 'Download a file shared earlier in the thread',
+    input: {
+      type: 'object',
+      required: ['fileId'],
+      properties: { sessionId: SESSION_ID, fileId: { type: 'string', minLength: 1 } },
+    },
+    response: {
+      type: 'object',
+      properties: { ok: { type: 'boolean' }, path: { type: 'string', description: 'Local path' } },
+    },
+    errors: { 404: 'The file is not in this thread', 422: 'Unsupported type or too large' },
+    handler: handleDownloadFile,
+  }),
+  sessionRoute<AskRequest>({
+    method: 'POST',
+    path: '/ask',
+    summary: 'Ask a question in the thread and wait for the answer',
+    description: 'Long-polls until someone answers or timeoutSeconds passes.',
+    longPoll: true,
+    input: {
+      type: 'object',
+      required: ['question'],
+      properties: {
+        sessionId: SESSION_ID,
+        question: { type: 'string', minLength: 1 },
+        type: { type: 'string', enum: ['buttons', 'select', 'text'], description: 'Default: buttons with options, else text' },
+        options: { type: 'array', items: { type: 'string' }, maxItems: 100 },
+        placeholder: { type: 'string' },
+        timeoutSeconds: { type: 'number', minimum: 1, description: `Default ${ASK_DEFAULT_TIMEOUT_SECONDS}; longer waits are capped at ${ASK_MAX_TIMEOUT_SECONDS}` },
+      },
+    },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        answered: { type: 'boolean' },
+        value: { type: 'string' },
+        userId: { type: 'string' },
+        reason: { type: 'string', enum: ['timeout', 'cancelled'] },
+      },
+    },
+    handler: handleAsk,
+  }),
+  sessionRoute<DeskCallRequest & SessionRequest>({
+    method: 'POST',
+    path: '/call-desk',
+    summary: 'Delegate to, consult, or chain other desks via #agent-comms',
+    description: 'Delegation returns once the target desk has started; consult and pipeline return its answer.',
+    longPoll: true,
+    input: {
+      type: 'object',
+      required: ['targetDesk', 'message', 'mode'],
+      properties: {
+        sessionId: SESSION_ID,
+        sourceSessionId: SESSION_ID,
+        targetDesk: { type: 'string', minLength: 1 },
+        message: { type: 'string', minLength: 1 },
+        mode: { type: 'string', enum: ['delegate', 'consult', 'pipeline'] },
+        pipelineNext: { type: 'array', items: { type: 'string' }, description: 'Pipeline mode only' },
+        originContext: {
+          type: 'object',
+          properties: { channelId: { type: 'string' }, threadTs: { type: 'string' }, summary: { type: 'string' } },
+        },
+      },
+    },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        callId: { type: 'string' },
+        commsChannelId: { type: 'string' },
+        commsThreadTs: { type: 'string' },
+        response: { type: 'string' },
+        error: { type: 'string' },
+      },
+    },
+    errors: {
+      404: 'Unknown desk',
+      409: 'Loop or depth limit',
+      502: 'The target desk failed',
+      503: 'AGENT_COMMS_CHANNEL is not set',
+      504: 'Consultation timed out',
+    },
+    handler: handleCallDesk,
+  }),
+];
+
+const ADMIN_ROUTES: AdminRoute[] = [
+  adminRoute<AdminSessionsQuery>({
+    method: 'GET',
+    path: '/admin/sessions',
+    summary: 'List thread sessions',
+    input: { type: 'object', properties: { channelId: { type: 'string', description: 'Only this channel' } } },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        sessions: { type: 'array', items: { ...SESSION_MAPPING, properties: { ...SESSION_MAPPING.properties, running: { type: 'boolean' } } } },
+      },
+    },
+    handler: handleListSessions,
+  }),
+  adminRoute<AdminSessionParams>({
+    method: 'GET',
+    path: '/admin/sessions/{sessionId}',
+    summary: 'Inspect a session and its running job',
+    input: { type: 'object', required: ['sessionId'], properties: { sessionId: { type: 'string' } } },
+    response: {
+      type: 'object',
+      properties: { ok: { type: 'boolean' }, session: SESSION_MAPPING, job: { ...ADMIN_JOB, description: 'null when idle' } },
+    },
+    errors: { 404: 'Unknown session' },
+    handler: handleGetSession,
+  }),
+  adminRoute<AdminSessionParams>({
+    method: 'DELETE',
+    path: '/admin/sessions/{sessionId}',
+    summary: 'Close a session (the thread starts fresh): its manifest files, downloads and run tokens go too',
+    input: { type: 'object', required: ['sessionId'], properties: { sessionId: { type: 'string' } } },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        sessionId: { type: 'string' },
+        tokensRevoked: { type: 'integer' },
+        reclaimed: RECLAIM_REPORT,
+      },
+    },
+    errors: { 404: 'Unknown session', 409: 'A job is running in the thread (cancel it first)' },
+    handler: handleDeleteSession,
+  }),
+  adminRoute<Record<string, never>>({
+    method: 'GET',
+    path: '/admin/channels',
+    summary: 'List configured channels',
+    input: { type: 'object' },
+    response: { type: 'object', properties: { ok: { type: 'boolean' }, channels: { type: 'array', items: CHANNEL_CONFIG } } },
+    handler: handleListChannels,
+  }),
+  adminRoute<AdminChannelParams>({
+    method: 'GET',
+    path: '/admin/channels/{channelId}',
+    summary: 'Get a channel\'s effective configuration',
+    input: { type: 'object', required: ['channelId'], properties: { channelId: { type: 'string' } } },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        channel: CHANNEL_CONFIG,
+        configured: { type: 'boolean', description: 'false = defaults (no stored configuration)' },
+      },
+    },
+    handler: handleGetChannel,
+  }),
+  adminRoute<AdminChannelUpdate>({
+    method: 'PUT',
+    path: '/admin/channels/{channelId}',
+    summary: 'Create or update a channel\'s configuration',
+    description: 'Fields are merged into the current configuration; omitted fields keep their value.',
+    input: { ...CHANNEL_CONFIG, required: ['channelId'] },
+    response: { type: 'object', properties: { ok: { type: 'boolean' }, channel: CHANNEL_CONFIG } },
+    handler: handlePutChannel,
+  }),
+  adminRoute<AdminChannelParams>({
+    method: 'DELETE',
+    path: '/admin/channels/{channelId}',
+    summary: 'Remove a channel\'s configuration (it falls back to the defaults)',
+    input: { type: 'object', required: ['channelId'], properties: { channelId: { type: 'string' } } },
+    response: { type: 'object', properties: { ok: { type: 'boolean' } } },
+    errors: { 404: 'Channel is not configured' },
+    handler: handleDeleteChannel,
+  }),
+  adminRoute<Record<string, never>>({
+    method: 'GET',
+    path: '/admin/desks',
+    summary: 'List loaded desks',
+    input: { type: 'object' },
+    response: ADMIN_DESKS,
+    handler: handleListDesks,
+  }),
+  adminRoute<Record<string, never>>({
+    method: 'POST',
+    path: '/admin/desks/reload',
+    summary: 'Reload desk definitions from disk',
+    input: { type: 'object' },
+    response: ADMIN_DESKS,
+    handler: handleReloadDesks,
+  }),
+  adminRoute<AdminUsageQuery>({
+    method: 'GET',
+    path: '/admin/usage',
+    summary: 'Usage summary for a channel or user, or totals per channel and user',
+    input: {
+      type: 'object',
+      properties: {
+        channelId: { type: 'string' },
+        userId: { type: 'string' },
+        days: { type: 'integer', minimum: 1, maximum: 90, description: 'Default 7' },
+      },
+    },
+    response: {
+      type: 'object',
+      properties: {
+        ok: { type: 'boolean' },
+        days: { type: 'integer' },
+        totalRequests: { type: 'integer' },
+        totalTokens: { type: 'integer' },
+        totalCost: { type: 'number' },
+        byDay: {
+          type: 'array',
+          items: { type: 'object', properties: { date: { type: 'string' }, requests: { type: 'integer' }, cost: { type: 'number' } } },
+        },
+        byChannel: { type: 'object', description: 'Totals only: channel ID -> usage', example: { C0123456789: { requests: 3, tokens: 5200, costUsd: 0.04 } } },
+        byUser: { type: 'object', description: 'Totals only: user ID -> usage' },
+      },
+    },
+    handler: handleUsage,
+  }),
+  adminRoute<Record<string, never>>({
+    method: 'GET',
+    path: '/admin/jobs',
+    summary: 'List running Claude jobs',
+    input: { type: 'object' },
+    response: { type: 'object', properties: { ok: { type: 'boolean' }, jobs: { type: 'array', items: ADMIN_JOB } } },
+    handler: handleListJobs,
+  }),
+  adminRoute<AdminCancelJobRequest>({
+    method: 'POST',
+    path: '/admin/jobs/cancel',
+    summary: 'Kill a running Claude job',
+    input: { type: 'object', required: ['key'], properties: { key: { type: 'string', description: 'From GET /admin/jobs' } } },
+    response: { type: 'object', properties: { ok: { type: 'boolean' }, job: ADMIN_JOB } },
+    errors: { 404: 'No such job', 409: 'Already cancelled' },
+    handler: handleCancelJob,
+  }),
+  adminRoute<Record<string, never>>({
+    method: 'POST',
+    path: '/admin/sweep',
+    summary: 'Tear down expired sessions, close long-expired ones, and remove session files no session owns',
+    description: 'The bridge also runs this at startup and every hour.',
+    input: { type: 'object' },
+    response: { type: 'object', properties: { ok: { type: 'boolean' }, reclaimed: RECLAIM_REPORT } },
+    handler: handleSweep,
+  }),
+];
+
+// Unauthenticated routes (handled inline in startBridgeApi), listed for the OpenAPI document
+const PUBLIC_ROUTES: OpenApiRoute[] = [
+  {
+    method: 'GET',
+    path: '/health',
+    summary: 'Health check',
+    auth: 'public',
+    input: { type: 'object' },
+    response: {
+      type: 'object',
+      properties: { status: { type: 'string', enum: ['ok'] }, version: { type: 'string' } },
+    },
+  },
+  {
+    method: 'GET',
+    path: '/openapi.json',
+    summary: 'This document',
+    auth: 'public',
+    input: { type: 'object' },
+    response: { type: 'object' },
+  },
+];
+
+// Signed webhook route for external systems (handled inline in startBridgeApi: the signature covers the raw body)
+const TRIGGER_ROUTE: OpenApiRoute = {
+  method: 'POST',
+  path: '/trigger',
+  summary: 'Start a Claude run in Slack from an external system (CI, alerting, cron)',
+  description: 'Posts a seed message and runs the prompt like a Slack message; people can follow up in the thread.',
+  auth: 'signed',
+  input: {
+    type: 'object',
+    required: ['channel', 'prompt'],
+    additionalProperties: false,
+    properties: {
+      channel: { type: 'string', minLength: 1, description: 'Channel ID', example: 'C0123456789' },
+      prompt: { type: 'string', minLength: 1, maxLength: 20000 },
+      desk: { type: 'string', description: 'Desk slug; runs that desk regardless of @mentions' },
+      threadTs: { type: 'string', description: 'Continue this thread instead of starting one' },
+    },
+  },
+  response: {
+    type: 'object',
+    properties: {
+      ok: { type: 'boolean' },
+      triggerId: { type: 'string' },
+      channel: { type: 'string' },
+      threadTs: { type: 'string' },
+      messageTs: { type: 'string', description: 'The seed message' },
+    },
+  },
+  errors: {
+    404: 'Unknown desk or thread',
+    429: 'Source over its hourly limit (see Retry-After)',
+    503: 'BRIDGE_TRIGGER_SOURCES is not set',
+  },
+};
+
+/**
+ * OpenAPI document for the Bridge API, generated from the route table
+ */
+export function getOpenApiDocument(): Record<string, unknown> {
+  return buildOpenApiDocument({
+    title: 'PAI Slack Bridge API',
+    version: API_VERSION,
+    serverUrl: `http://localhost:${API_PORT}`,
+    routes: [...PUBLIC_ROUTES, ...SESSION_ROUTES, TRIGGER_ROUTE, ...ADMIN_ROUTES],
+  });
+}
 
 /**
- * Validate the Authorization header
+ * Remember a message a session posted, so it may edit it later
  */
-function isAuthorized(request: Request): boolean {
-  if (!API_SECRET) return true; // No secret = open (local only)
+function rememberPostedMessage(sessionId: string, ts: string): void {
+  const posted = postedMessages.get(sessionId) || [];
+  posted.push(ts);
+  postedMessages.set(sessionId, posted.slice(-MAX_POSTED_PER_SESSION));
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+function getBearerToken(request: Request): string | null {
   const auth = request.headers.get('Authorization');
-  return auth === `Bearer ${API_SECRET}`;
+  return auth?.startsWith('Bearer ') ? auth.slice('Bearer '.length) : null;
+}
+
+/**
+ * Authorize a session endpoint: requires a live run token that covers the endpoint.
+ * Returns the token, or an error response.
+ */
+function authorizeSession(request: Request, endpoint: string): BridgeToken | Response {
+  const bearer = getBearerToken(request);
+  if (!bearer) {
+    return jsonResponse({ error: 'Unauthorized: missing bearer token' }, 401);
+  }
+  if (API_SECRET && secretMatches(bearer)) {
+    return jsonResponse({ error: 'BRIDGE_API_SECRET is only accepted on admin endpoints; use the run\'s BRIDGE_API_TOKEN' }, 403);
+  }
+
+  const check = verifyToken(bearer, endpoint);
+  if (!check.ok) {
+    const status = check.reason.startsWith('Token not valid') ? 403 : 401;
+    return jsonResponse({ error: `Unauthorized: ${check.reason}` }, status);
+  }
+  return check.token;
+}
+
+/**
+ * Constant-time comparison against BRIDGE_API_SECRET
+ */
+function secretMatches(bearer: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(bearer), digest(API_SECRET));
+}
+
+/**
+ * Authorize an admin endpoint: requires BRIDGE_API_SECRET (run tokens are refused).
+ * Returns an error response, or null when authorized.
+ */
+function authorizeAdmin(request: Request): Response | null {
+  if (!API_SECRET) {
+    return jsonResponse({ error: 'Admin API disabled: set BRIDGE_API_SECRET' }, 503);
+  }
+
+  const bearer = getBearerToken(request);
+  if (!bearer) {
+    return jsonResponse({ error: 'Unauthorized: missing bearer token' }, 401);
+  }
+  if (!secretMatches(bearer)) {
+    return bearer.startsWith('brt_')
+      ? jsonResponse({ error: 'Run tokens are not accepted on admin endpoints' }, 403)
+      : jsonResponse({ error: 'Unauthorized: invalid admin token' }, 401);
+  }
+  return null;
+}
+
+/**
+ * Check that a body's sessionId (optional) matches the token's session
+ */
+function checkSessionMatch(token: BridgeToken, sessionId: string | undefined): Response | null {
+  if (sessionId && sessionId !== token.sessionId) {
+    return jsonResponse({ error: 'Token is not valid for this session' }, 403);
+  }
+  return null;
+}
+
+/**
+ * Match a path against a route pattern; returns the "{name}" parameters, or null
+ */
+function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split('/');
+  const pathParts = pathname.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const param = patternParts[i].match(/^\{(\w+)\}$/);
+    if (param) {
+      if (!pathParts[i]) return null;
+      try {
+        params[param[1]] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Read a route's input (path parameters plus the JSON body, or query parameters for GET/DELETE)
+ * and validate it against the schema. Null fields count as omitted. Returns the input, or an error response.
+ */
+async function readInput(
+  route: OpenApiRoute,
+  params: Record<string, string>,
+  request: Request,
+  url: URL
+): Promise<Record<string, unknown> | Response> {
+  let input: unknown;
+  if (!hasRequestBody(route.method)) {
+    input = parseQuery(url.searchParams, route.input);
+  } else {
+    try {
+      input = await request.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+  }
+
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    input = {
+      ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== null)),
+      ...params,
+    };
+  }
+
+  const errors = validateSchema(input, route.input, hasRequestBody(route.method) ? 'body' : 'query');
+  if (errors.length > 0) {
+    return jsonResponse({ error: `Invalid request: ${errors.join('; ')}`, details: errors }, 400);
+  }
+  return input as Record<string, unknown>;
+}
+
+/**
+ * Run a session route: authorize, validate, check the session, then call the handler
+ */
+async function dispatchSessionRoute(
+  route: SessionRoute,
+  request: Request,
+  url: URL,
+  server: ReturnType<typeof Bun.serve>
+): Promise<Response> {
+  const token = authorizeSession(request, route.path);
+  if (token instanceof Response) return token;
+
+  const input = await readInput(route, {}, request, url);
+  if (input instanceof Response) return input;
+
+  const mismatch = checkSessionMatch(token, input.sessionId as string | undefined);
+  if (mismatch) return mismatch;
+
+  if (route.longPoll) {
+    server.timeout(request, 0); // Waits can far exceed the default idle timeout
+  }
+  return route.handler(input, token, request);
+}
+
+/**
+ * Run an admin route: authorize, validate, then call the handler
+ */
+async function dispatchAdminRoute(
+  route: AdminRoute,
+  params: Record<string, string>,
+  request: Request,
+  url: URL
+): Promise<Response> {
+  const denied = authorizeAdmin(request);
+  if (denied) return denied;
+
+  const input = await readInput(route, params, request, url);
+  if (input instanceof Response) return input;
+
+  return route.handler(input, request);
 }
 
 /**
  * Create a JSON response
  */
-function jsonResponse(data: unknown, status = 200): Response {
+function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
   return new Response(JSON.stringify(data), {
     status,
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...headers },
   });
 }
 
@@ -31,28 +867,47 @@ function jsonResponse(data: unknown, status = 200): Response {
 export function startBridgeApi(): { server: ReturnType<typeof Bun.serve>; port: number } {
   const server = Bun.serve({
     port: API_PORT,
-    async fetch(request) {
+    async fetch(request, server) {
       const url = new URL(request.url);
       const method = request.method;
 
       // Health check
       if (method === 'GET' && url.pathname === '/health') {
-        return jsonResponse({ status: 'ok', version: '0.1.0' });
+        return jsonResponse({ status: 'ok', version: API_VERSION });
       }
 
-      // Auth check for all other endpoints
-      if (!isAuthorized(request)) {
-        return jsonResponse({ error: 'Unauthorized' }, 401);
+      // API description (no auth: it contains no secrets)
+      if (method === 'GET' && url.pathname === '/openapi.json') {
+        return jsonResponse(getOpenApiDocument());
       }
 
-      // POST /send-file — upload a local file to a Slack thread
-      if (method === 'POST' && url.pathname === '/send-file') {
-        return handleSendFile(request);
+      // Webhook trigger (HMAC-signed, no bearer token)
+      if (url.pathname === TRIGGER_ROUTE.path) {
+        if (method !== TRIGGER_ROUTE.method) {
+          return jsonResponse({ error: `Method not allowed (use ${TRIGGER_ROUTE.method})` }, 405);
+        }
+        return handleTrigger(request);
       }
 
-      // POST /send-message — post a message (optionally with blocks) to a Slack thread
-      if (method === 'POST' && url.pathname === '/send-message') {
-        return handleSendMessage(request);
+      const route = SESSION_ROUTES.find((r) => r.path === url.pathname);
+      if (route) {
+        if (route.method !== method) {
+          return jsonResponse({ error: `Method not allowed (use ${route.method})` }, 405);
+        }
+        return dispatchSessionRoute(route, request, url, server);
+      }
+
+      // Admin routes may have path parameters, and several methods per path
+      const adminMatches = ADMIN_ROUTES
+        .map((r) => ({ route: r, params: matchPath(r.path, url.pathname) }))
+        .filter((m): m is { route: AdminRoute; params: Record<string, string> } => m.params !== null);
+      if (adminMatches.length > 0) {
+        const match = adminMatches.find((m) => m.route.method === method);
+        if (!match) {
+          const allowed = adminMatches.map((m) => m.route.method).join(', ');
+          return jsonResponse({ error: `Method not allowed (use ${allowed})` }, 405);
+        }
+        return dispatchAdminRoute(match.route, match.params, request, url);
       }
 
       return jsonResponse({ error: 'Not found' }, 404);
@@ -64,46 +919,47 @@ export function startBridgeApi(): { server: ReturnType<typeof Bun.serve>; port:
 }
 
 /**
- * Handle POST /send-file
- * Body: { sessionId, filePath, comment? }
+ * Handle POST /send-file — posts to the token's thread
  */
-async function handleSendFile(request: Request): Promise<Response> {
-  let body: { sessionId?: string; filePath?: string; comment?: string };
-  try {
-    body = await request.json();
-  } catch {
-    return jsonResponse({ error: 'Invalid JSON body' }, 400);
-  }
+async function handleSendFile(body: SendFileRequest, token: BridgeToken): Promise<Response> {
+  const { filePath, comment } = body;
 
-  const { sessionId, filePath, comment } = body;
-
-  if (!sessionId || !filePath) {
-    return jsonResponse({ error: 'Missing required fields: sessionId, filePath' }, 400);
-  }
-
-  const session = getSessionBySessionId(sessionId);
-  if (!session) {
-    return jsonResponse({ error: `Session not found: ${sessionId}` }, 404);
+  // Sandbox: symlinks resolved, then deny list, desk manifest, and channel file rules
+  const check = checkSendFile(filePath, { sessionId: token.sessionId, channelId: token.channelId });
+  const audit = {
+    event: 'send_file',
+    sessionId: token.sessionId,
+    channelId: token.channelId,
+    threadTs: token.threadTs,
+    filePath,
+    realPath: check.realPath,
+  };
+  if (!check.ok) {
+    recordAudit({ ...audit, outcome: 'denied', code: check.code, reason: check.reason });
+    console.warn(`[BridgeAPI] send-file denied (${check.code}): ${filePath}`);
+    const status = check.code === 'not_found' ? 404 : check.code === 'not_absolute' ? 400 : 403;
+    return jsonResponse({ error: check.reason, code: check.code, filePath }, status);
   }
 
   try {
-    const file = Bun.file(filePath);
-    if (!await file.exists()) {
-      return jsonResponse({ error: `File not found: ${filePath}` }, 404);
-    }
-
     const client = getSlackClient();
-    const buffer = Buffer.from(await file.arrayBuffer());
+    const buffer = Buffer.from(await Bun.file(check.realPath).arrayBuffer());
     const result = await client.filesUploadV2({
-      channel_id: session.channelId,
-      thread_ts: session.threadTs,
+      channel_id: token.channelId,
+      thread_ts: token.threadTs,
       file: buffer,
       filename: filePath.split('/').pop() || 'file',
       initial_comment: comment || undefined,
     });
 
-    console.log(`[BridgeAPI] Uploaded file ${filePath} to ${session.channelId}:${session.threadTs}`);
-    return jsonResponse({ ok: true, ok_result: true });
+    // uploadV2 nests the uploaded files under each completed upload
+    const uploaded = (result as { files?: Array<{ files?: Array<{ id?: string; permalink?: string }> }> })
+      .files?.[0]?.files?.[0];
+
+    recordAudit({ ...audit, outcome: 'allowed', sizeBytes: check.sizeBytes, fileId: uploaded?.id });
+    console.log(`[BridgeAPI] Uploaded file ${filePath} to ${token.channelId}:${token.threadTs}`);
+    const response: SendFileResponse = { ok: true, fileId: uploaded?.id, permalink: uploaded?.permalink };
+    return jsonResponse(response);
   } catch (error) {
     console.error('[BridgeAPI] File upload failed:', error);
     return jsonResponse(
@@ -114,42 +970,26 @@ async function handleSendFile(request: Request): Promise<Response> {
 }
 
 /**
- * Handle POST /send-message
- * Body: { sessionId, text?, blocks? }
+ * Handle POST /send-message — posts to the token's thread
  */
-async function handleSendMessage(request: Request): Promise<Response> {
-  let body: { sessionId?: string; text?: string; blocks?: SlackBlock[] };
-  try {
-    body = await request.json();
-  } catch {
-    return jsonResponse({ error: 'Invalid JSON body' }, 400);
-  }
-
-  const { sessionId, text, blocks } = body;
-
-  if (!sessionId) {
-    return jsonResponse({ error: 'Missing required field: sessionId' }, 400);
-  }
+async function handleSendMessage(body: SendMessageRequest, token: BridgeToken): Promise<Response> {
+  const { text, blocks } = body;
 
   if (!text && !blocks) {
     return jsonResponse({ error: 'Must provide text or blocks (or both)' }, 400);
   }
 
-  const session = getSessionBySessionId(sessionId);
-  if (!session) {
-    return jsonResponse({ error: `Session not found: ${sessionId}` }, 404);
-  }
-
   try {
     const client = getSlackClient();
     const result = await client.chat.postMessage({
-      channel: session.channelId,
-      thread_ts: session.threadTs,
+      channel: token.channelId,
+      thread_ts: token.threadTs,
       text: text || '',
       blocks: blocks as any,
     });
 
-    console.log(`[BridgeAPI] Posted message to ${session.channelId}:${session.threadTs}`);
+    if (result.ts) rememberPostedMessage(token.sessionId, result.ts);
+    console.log(`[BridgeAPI] Posted message to ${token.channelId}:${token.threadTs}`);
     return jsonResponse({ ok: true, ts: result.ts });
   } catch (error) {
     console.error('[BridgeAPI] Message post failed:', error);
@@ -159,3 +999,478 @@ async function handleSendMessage(request: Request): Promise<Response> {
     );
   }
 }
+
+/**
+ * Handle POST /update-message — ts must be a message this session posted via /send-message
+ */
+async function handleUpdateMessage(body: UpdateMessageRequest, token: BridgeToken): Promise<Response> {
+  const { ts, text, blocks } = body;
+
+  if (!text && !blocks) {
+    return jsonResponse({ error: 'Must provide text or blocks (or both)' }, 400);
+  }
+
+  if (!postedMessages.get(token.sessionId)?.includes(ts)) {
+    return jsonResponse({ error: 'Can only update messages this session posted with /send-message' }, 403);
+  }
+
+  try {
+    await updateMessage(token.channelId, ts, text || '', true, blocks);
+    console.log(`[BridgeAPI] Updated message ${ts} in ${token.channelId}:${token.threadTs}`);
+    return jsonResponse({ ok: true, ts });
+  } catch (error) {
+    console.error('[BridgeAPI] Message update failed:', error);
+    return jsonResponse(
+      { error: `Update failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      500
+    );
+  }
+}
+
+/**
+ * Handle POST /react — ts defaults to the message that started the run
+ */
+async function handleReact(body: ReactRequest, token: BridgeToken): Promise<Response> {
+  const { remove } = body;
+  const emoji = body.emoji.replace(/^:|:$/g, '');
+  const ts = body.ts || getJob(token.channelId, token.threadTs)?.messageTs || token.threadTs;
+
+  try {
+    const allowed = postedMessages.get(token.sessionId)?.includes(ts)
+      || await isMessageInThread(token.channelId, token.threadTs, ts);
+    if (!allowed) {
+      return jsonResponse({ error: 'Message is not in this session\'s thread' }, 403);
+    }
+
+    if (remove) {
+      await removeReaction(token.channelId, ts, emoji);
+    } else {
+      await addReaction(token.channelId, ts, emoji);
+    }
+    console.log(`[BridgeAPI] ${remove ? 'Removed' : 'Added'} :${emoji}: on ${ts} in ${token.channelId}:${token.threadTs}`);
+    return jsonResponse({ ok: true, ts });
+  } catch (error) {
+    console.error('[BridgeAPI] Reaction failed:', error);
+    return jsonResponse(
+      { error: `Reaction failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      500
+    );
+  }
+}
+
+/**
+ * Handle POST /progress — rewrites the run's "Processing..." message
+ * (updates are coalesced, so frequent calls are cheap)
+ */
+async function handleProgress(body: ProgressRequest, token: BridgeToken): Promise<Response> {
+  const { status } = body;
+
+  if (body.percent === undefined && !status) {
+    return jsonResponse({ error: 'Must provide percent or status (or both)' }, 400);
+  }
+
+  const job = getJob(token.channelId, token.threadTs);
+  if (!job?.progress) {
+    return jsonResponse({ error: 'No run in progress for this thread' }, 409);
+  }
+
+  const percent = body.percent === undefined ? undefined : Math.round(body.percent);
+  await job.progress.update(formatProgress(percent, status));
+  return jsonResponse({ ok: true, percent, status });
+}
+
+/**
+ * Progress line for the "Processing..." message, e.g. "▓▓▓▓░░░░░░ 40% · Running tests"
+ */
+function formatProgress(percent: number | undefined, status: string | undefined): string {
+  const parts = [':hourglass_flowing_sand:'];
+  if (percent !== undefined) {
+    const filled = Math.round(percent / 10);
+    parts.push(`${'▓'.repeat(filled)}${'░'.repeat(10 - filled)} ${percent}%`);
+  }
+  if (status) {
+    parts.push(percent !== undefined ? `· ${status.slice(0, 200)}` : status.slice(0, 200));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Handle GET /thread-history — oldest first, with nextCursor when more remain
+ */
+async function handleThreadHistory(query: ThreadHistoryQuery, token: BridgeToken): Promise<Response> {
+  try {
+    const page = await fetchThreadHistory(token.channelId, token.threadTs, {
+      cursor: query.cursor,
+      limit: query.limit,
+    });
+    console.log(`[BridgeAPI] Thread history for ${token.channelId}:${token.threadTs} (${page.messages.length} messages)`);
+    return jsonResponse({ ok: true, ...page });
+  } catch (error) {
+    console.error('[BridgeAPI] Thread history failed:', error);
+    return jsonResponse(
+      { error: `History failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      500
+    );
+  }
+}
+
+/**
+ * Handle POST /download-file — the file must be shared in the token's thread; returns its local path
+ */
+async function handleDownloadFile(body: DownloadFileRequest, token: BridgeToken): Promise<Response> {
+  const { fileId } = body;
+
+  const botToken = process.env.SLACK_BOT_TOKEN;
+  if (!botToken) {
+    return jsonResponse({ error: 'SLACK_BOT_TOKEN is not set' }, 500);
+  }
+
+  try {
+    const result = await downloadThreadFile(token, fileId, botToken);
+    if ('error' in result) {
+      return jsonResponse({ error: result.error }, result.status);
+    }
+    console.log(`[BridgeAPI] Downloaded thread file ${fileId} -> ${result.path}`);
+    return jsonResponse({ ok: true, path: result.path });
+  } catch (error) {
+    console.error('[BridgeAPI] File download failed:', error);
+    return jsonResponse(
+      { error: `Download failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      500
+    );
+  }
+}
+
+/**
+ * Handle POST /ask
+ * Responds when someone answers: { ok, answered: true, value, userId },
+ * or { ok, answered: false, reason: "timeout" | "cancelled" }
+ */
+async function handleAsk(body: AskRequest, token: BridgeToken, request: Request): Promise<Response> {
+  const { question, placeholder } = body;
+  const kind: AskKind = body.type || (body.options?.length ? 'buttons' : 'text');
+  const options = body.options || [];
+
+  if (kind !== 'text' && options.length === 0) {
+    return jsonResponse({ error: `type "${kind}" requires options` }, 400);
+  }
+  if (kind === 'buttons' && options.length > 25) {
+    return jsonResponse({ error: 'Too many options (buttons: 25, select: 100)' }, 400);
+  }
+
+  const timeoutSeconds = Math.min(body.timeoutSeconds || ASK_DEFAULT_TIMEOUT_SECONDS, ASK_MAX_TIMEOUT_SECONDS);
+  const { ask, result } = createAsk({
+    sessionId: token.sessionId,
+    channelId: token.channelId,
+    threadTs: token.threadTs,
+    question,
+    kind,
+    options,
+    placeholder,
+  }, timeoutSeconds * 1000);
+
+  try {
+    const posted = await postMessage(token.channelId, question, token.threadTs, true, buildAskBlocks(ask));
+    ask.messageTs = posted.ts;
+  } catch (error) {
+    settleAsk(ask.id, { answered: false, reason: 'cancelled' });
+    console.error('[BridgeAPI] Ask post failed:', error);
+    return jsonResponse(
+      { error: `Post failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      500
+    );
+  }
+
+  // The caller gave up (e.g. the Claude run was killed) — withdraw the question
+  request.signal.addEventListener('abort', () => {
+    settleAsk(ask.id, { answered: false, reason: 'cancelled' });
+  }, { once: true });
+
+  console.log(`[BridgeAPI] Ask ${ask.id} posted to ${token.channelId}:${token.threadTs} (${kind}, ${timeoutSeconds}s)`);
+  const answer = await result;
+  await closeAskMessage(ask, answer, timeoutSeconds);
+
+  console.log(`[BridgeAPI] Ask ${ask.id} ${answer.answered ? 'answered' : answer.reason}`);
+  return jsonResponse({ ok: true, ...answer });
+}
+
+/**
+ * Handle POST /call-desk
+ * Delegation returns once the target desk has started; consult and pipeline return its answer
+ */
+async function handleCallDesk(body: DeskCallRequest, token: BridgeToken): Promise<Response> {
+  if (body.pipelineNext && body.mode !== 'pipeline') {
+    return jsonResponse({ error: 'pipelineNext is only valid in pipeline mode' }, 400);
+  }
+
+  const mismatch = checkSessionMatch(token, body.sourceSessionId);
+  if (mismatch) return mismatch;
+
+  try {
+    const { status, response } = await callDesk(body, token);
+    return jsonResponse(response, status);
+  } catch (error) {
+    console.error('[BridgeAPI] Desk call failed:', error);
+    return jsonResponse(
+      { ok: false, error: `Desk call failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      500
+    );
+  }
+}
+
+/**
+ * Replace the question's controls with the outcome
+ */
+async function closeAskMessage(ask: PendingAsk, answer: AskResult, timeoutSeconds: number): Promise<void> {
+  if (!ask.messageTs) return;
+
+  const text = answer.answered
+    ? `:white_check_mark: ${ask.question}\n<@${answer.userId}>: *${answer.value}*`
+    : answer.reason === 'timeout'
+      ? `:hourglass: ${ask.question}\n_No answer within ${timeoutSeconds}s — Claude continued without one._`
+      : `:heavy_multiplication_x: ${ask.question}\n_Question withdrawn._`;
+
+  await updateMessage(ask.channelId, ask.messageTs, text, true, [])
+    .catch((e) => console.error('[BridgeAPI] Failed to close ask message:', e));
+}
+
+/**
+ * Handle POST /trigger — verify the signature, apply the source's rate limit, then start the run
+ */
+async function handleTrigger(request: Request): Promise<Response> {
+  if (getTriggerSources().length === 0) {
+    return jsonResponse({ error: 'Triggers disabled: set BRIDGE_TRIGGER_SOURCES' }, 503);
+  }
+
+  const rawBody = await request.text();
+  const auth = verifyTrigger(request.headers, rawBody);
+  if (!auth.ok) {
+    return jsonResponse({ error: auth.error }, auth.status);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  const errors = validateSchema(body, TRIGGER_ROUTE.input);
+  if (errors.length > 0) {
+    return jsonResponse({ error: `Invalid request: ${errors.join('; ')}`, details: errors }, 400);
+  }
+
+  const retryAfter = takeTriggerQuota(auth.source);
+  if (retryAfter !== null) {
+    console.warn(`[BridgeAPI] Trigger source ${auth.source.name} is over its limit (${auth.source.runsPerHour}/hour)`);
+    return jsonResponse(
+      { error: `Rate limit: ${auth.source.runsPerHour} runs per hour for source "${auth.source.name}"` },
+      429,
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
+
+  try {
+    const { status, response } = await startTrigger(auth.source, body as TriggerRequest);
+    return jsonResponse(response, status);
+  } catch (error) {
+    console.error('[BridgeAPI] Trigger failed:', error);
+    return jsonResponse(
+      { ok: false, error: `Trigger failed: ${error instanceof Error ? error.message : 'unknown'}` },
+      502
+    );
+  }
+}
+
+// --- Admin handlers ---
+
+/**
+ * Job fields safe to return (no AbortController or updater)
+ */
+function describeJob(job: RunningJob): AdminJob {
+  return {
+    key: job.key,
+    channelId: job.channelId,
+    threadTs: job.threadTs,
+    sessionId: job.sessionId,
+    userId: job.userId,
+    startedAt: job.startedAt,
+    cancelled: job.controller.signal.aborted,
+  };
+}
+
+/**
+ * Desk summary (the full definition may carry MCP credentials)
+ */
+function describeDesk(desk: DeskDefinition): AdminDesk {
+  return {
+    slug: desk.slug,
+    name: desk.name,
+    description: desk.description,
+    mentions: desk.routing.mentions,
+    channel: desk.routing.channel,
+    model: desk.model,
+    outputStyle: desk.output_style,
+    isDefault: desk.routing.mentions.length === 0,
+  };
+}
+
+/**
+ * Handle GET /admin/sessions
+ */
+function handleListSessions(query: AdminSessionsQuery): Response {
+  const sessions = getAllSessions()
+    .filter((session) => !query.channelId || session.channelId === query.channelId)
+    .map((session) => ({ ...session, running: !!getJob(session.channelId, session.threadTs) }));
+  return jsonResponse({ ok: true, sessions });
+}
+
+/**
+ * Handle GET /admin/sessions/{sessionId}
+ */
+function handleGetSession({ sessionId }: AdminSessionParams): Response {
+  const session = getSessionBySessionId(sessionId);
+  if (!session) {
+    return jsonResponse({ error: `Unknown session: ${sessionId}` }, 404);
+  }
+
+  const job = getJob(session.channelId, session.threadTs);
+  return jsonResponse({ ok: true, session, job: job ? describeJob(job) : null });
+}
+
+/**
+ * Handle DELETE /admin/sessions/{sessionId} — refused while a job runs in the thread
+ */
+function handleDeleteSession({ sessionId }: AdminSessionParams): Response {
+  const session = getSessionBySessionId(sessionId);
+  if (!session) {
+    return jsonResponse({ error: `Unknown session: ${sessionId}` }, 404);
+  }
+
+  const job = getJob(session.channelId, session.threadTs);
+  if (job) {
+    return jsonResponse({ error: `A job is running in this thread; cancel it first (POST /admin/jobs/cancel {"key":"${job.key}"})` }, 409);
+  }
+
+  const reclaimed = closeSession(session, 'admin');
+  recordAudit({
+    event: 'admin_delete_session',
+    outcome: 'allowed',
+    sessionId,
+    channelId: session.channelId,
+    threadTs: session.threadTs,
+  });
+  console.log(`[BridgeAPI] Admin deleted session ${sessionId} (${session.channelId}:${session.threadTs})`);
+  return jsonResponse({ ok: true, sessionId, tokensRevoked: reclaimed.tokensRevoked, reclaimed });
+}
+
+/**
+ * Handle GET /admin/channels
+ */
+function handleListChannels(): Response {
+  return jsonResponse({ ok: true, channels: getAllChannels() });
+}
+
+/**
+ * Handle GET /admin/channels/{channelId} — unconfigured channels return the defaults
+ */
+function handleGetChannel({ channelId }: AdminChannelParams): Response {
+  const configured = getAllChannels().some((channel) => channel.channelId === channelId);
+  return jsonResponse({ ok: true, channel: getChannelConfig(channelId), configured });
+}
+
+/**
+ * Handle PUT /admin/channels/{channelId}
+ */
+function handlePutChannel(body: AdminChannelUpdate): Response {
+  const { channelId, ...updates } = body;
+  const channel = updateChannelConfig(channelId, updates);
+
+  recordAudit({ event: 'admin_update_channel', outcome: 'allowed', channelId, fields: Object.keys(updates) });
+  console.log(`[BridgeAPI] Admin updated channel ${channelId}: ${Object.keys(updates).join(', ') || '(no changes)'}`);
+  return jsonResponse({ ok: true, channel });
+}
+
+/**
+ * Handle DELETE /admin/channels/{channelId}
+ */
+function handleDeleteChannel({ channelId }: AdminChannelParams): Response {
+  if (!deleteChannelConfig(channelId)) {
+    return jsonResponse({ error: `Channel is not configured: ${channelId}` }, 404);
+  }
+
+  recordAudit({ event: 'admin_delete_channel', outcome: 'allowed', channelId });
+  console.log(`[BridgeAPI] Admin deleted channel config ${channelId}`);
+  return jsonResponse({ ok: true });
+}
+
+/**
+ * Handle GET /admin/desks
+ */
+function handleListDesks(): Response {
+  return jsonResponse({ ok: true, desks: getAllDesks().map(describeDesk) });
+}
+
+/**
+ * Handle POST /admin/desks/reload
+ */
+function handleReloadDesks(): Response {
+  reloadDesks();
+  recordAudit({ event: 'admin_reload_desks', outcome: 'allowed' });
+  return jsonResponse({ ok: true, desks: getAllDesks().map(describeDesk) });
+}
+
+/**
+ * Handle POST /admin/sweep
+ */
+function handleSweep(): Response {
+  const reclaimed = mergeReclaimReports(cleanupExpiredSessions(), sweepOrphanedArtifacts());
+  recordAudit({ event: 'admin_sweep', outcome: 'allowed', sessions: reclaimed.sessions, orphans: reclaimed.orphans.length });
+  return jsonResponse({ ok: true, reclaimed });
+}
+
+/**
+ * Handle GET /admin/usage
+ */
+function handleUsage(query: AdminUsageQuery): Response {
+  const days = query.days || 7;
+
+  if (query.channelId && query.userId) {
+    return jsonResponse({ error: 'Pass channelId or userId, not both' }, 400);
+  }
+  if (query.channelId) {
+    return jsonResponse({ ok: true, channelId: query.channelId, days, ...getChannelUsageSummary(query.channelId, days) });
+  }
+  if (query.userId) {
+    return jsonResponse({ ok: true, userId: query.userId, days, ...getUserUsageSummary(query.userId, days) });
+  }
+  return jsonResponse({ ok: true, ...getUsageTotals(days) });
+}
+
+/**
+ * Handle GET /admin/jobs
+ */
+function handleListJobs(): Response {
+  return jsonResponse({ ok: true, jobs: getRunningJobs().map(describeJob) });
+}
+
+/**
+ * Handle POST /admin/jobs/cancel — same effect as the Stop button
+ */
+function handleCancelJob({ key }: AdminCancelJobRequest): Response {
+  const job = getJobByKey(key);
+  if (!job) {
+    return jsonResponse({ error: `No running job: ${key}` }, 404);
+  }
+  if (!cancelJob(job, 'admin')) {
+    return jsonResponse({ error: 'Job is already cancelled' }, 409);
+  }
+
+  recordAudit({
+    event: 'admin_cancel_job',
+    outcome: 'allowed',
+    sessionId: job.sessionId,
+    channelId: job.channelId,
+    threadTs: job.threadTs,
+  });
+  return jsonResponse({ ok: true, job: describeJob(job) });
+}
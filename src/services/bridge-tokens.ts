@@ -0,0 +1,111 @@
+// Bridge API tokens: minted per Claude run, scoped to one session's thread and a set of endpoints
+import { randomBytes } from 'crypto';
+
+/** Endpoints a run token may call unless the caller narrows them */
+export const SESSION_ENDPOINTS = [
+  '/send-file',
+  '/send-message',
+  '/update-message',
+  '/react',
+  '/progress',
+  '/thread-history',
+  '/download-file',
+  '/ask',
+  '/call-desk',
+];
+
+// Tokens outlive the run's wall-clock limit slightly; revocation at run end is the normal path
+const DEFAULT_TOKEN_TTL_MS = parseInt(process.env.BRIDGE_TOKEN_TTL_SECONDS || '7200', 10) * 1000;
+const TOKEN_GRACE_MS = 60_000;
+
+export interface BridgeToken {
+  token: string;
+  sessionId: string;
+  channelId: string;
+  threadTs: string;
+  endpoints: string[];
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface TokenScope {
+  sessionId: string;
+  channelId: string;
+  threadTs: string;
+}
+
+export type TokenCheck =
+  | { ok: true; token: BridgeToken }
+  | { ok: false; reason: string };
+
+// Active tokens (key: token)
+const tokens: Map<string, BridgeToken> = new Map();
+
+/**
+ * Mint a token bound to one session's channel and thread
+ */
+export function mintSessionToken(
+  scope: TokenScope,
+  options: { endpoints?: string[]; ttlMs?: number } = {}
+): BridgeToken {
+  sweepExpiredTokens();
+
+  const now = Date.now();
+  const bridgeToken: BridgeToken = {
+    token: `brt_${randomBytes(24).toString('hex')}`,
+    ...scope,
+    endpoints: options.endpoints || SESSION_ENDPOINTS,
+    issuedAt: now,
+    expiresAt: now + (options.ttlMs ?? DEFAULT_TOKEN_TTL_MS) + TOKEN_GRACE_MS,
+  };
+  tokens.set(bridgeToken.token, bridgeToken);
+  return bridgeToken;
+}
+
+/**
+ * Check a token for an endpoint: it must exist, be unexpired, and cover the endpoint
+ */
+export function verifyToken(token: string, endpoint: string): TokenCheck {
+  const bridgeToken = tokens.get(token);
+  if (!bridgeToken) {
+    return { ok: false, reason: 'Unknown or revoked token' };
+  }
+  if (bridgeToken.expiresAt <= Date.now()) {
+    tokens.delete(token);
+    return { ok: false, reason: 'Token expired' };
+  }
+  if (!bridgeToken.endpoints.includes(endpoint)) {
+    return { ok: false, reason: `Token not valid for ${endpoint}` };
+  }
+  return { ok: true, token: bridgeToken };
+}
+
+/**
+ * Revoke a token (the run finished or was killed)
+ */
+export function revokeToken(token: string): void {
+  tokens.delete(token);
+}
+
+/**
+ * Revoke every token issued for a session
+ */
+export function revokeSessionTokens(sessionId: string): number {
+  let revoked = 0;
+  for (const [token, bridgeToken] of tokens) {
+    if (bridgeToken.sessionId === sessionId) {
+      tokens.delete(token);
+      revoked++;
+    }
+  }
+  return revoked;
+}
+
+function sweepExpiredTokens(): void {
+  const now = Date.now();
+  for (const [token, bridgeToken] of tokens) {
+    if (bridgeToken.expiresAt <= now) {
+      tokens.delete(token);
+    }
+  }
+}
@@ -1,48 +1,46 @@
 // Channel configuration service - load/save channel configs
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname, join } from 'path';
-import { homedir } from 'os';
-import type { ChannelConfig, ChannelStore } from '../types/config';
+import { getDatabase, transaction } from './database';
+import type { ChannelConfig } from '../types/config';
 import { DEFAULT_CHANNEL_CONFIG } from '../types/config';
 
-const PAI_DIR = process.env.PAI_DIR || join(homedir(), '.claude');
-const DATA_DIR = join(PAI_DIR, 'bridge', 'data');
-const CONFIG_PATH = join(DATA_DIR, 'channels.json');
-
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
+/**
+ * Defaults for unconfigured channels (the channel_defaults setting, else DEFAULT_CHANNEL_CONFIG)
+ */
+function loadDefaultConfig(): Partial<ChannelConfig> {
+  const row = getDatabase()
+    .query<{ value: string }, [string]>('SELECT value FROM settings WHERE key = ?')
+    .get('channel_defaults');
+  if (!row) return DEFAULT_CHANNEL_CONFIG;
 
-function loadChannelStore(): ChannelStore {
   try {
-    if (existsSync(CONFIG_PATH)) {
-      return JSON.parse(readFileSync(CONFIG_PATH, 'utf-8'));
-    }
+    return JSON.parse(row.value);
   } catch (error) {
-    console.error('[ChannelConfig] Error loading config:', error);
+    console.error('[ChannelConfig] Error parsing channel defaults:', error);
+    return DEFAULT_CHANNEL_CONFIG;
   }
-  return { channels: {}, defaultConfig: DEFAULT_CHANNEL_CONFIG };
 }
 
-function saveChannelStore(store: ChannelStore): void {
-  ensureDataDir();
-  writeFileSync(CONFIG_PATH, JSON.stringify(store, null, 2));
+/**
+ * Stored config for a channel, or null when it has none
+ */
+function loadChannel(channelId: string): ChannelConfig | null {
+  const row = getDatabase()
+    .query<{ config: string }, [string]>('SELECT config FROM channels WHERE channel_id = ?')
+    .get(channelId);
+  return row ? JSON.parse(row.config) : null;
 }
 
 /**
  * Get configuration for a channel
  */
 export function getChannelConfig(channelId: string): ChannelConfig {
-  const store = loadChannelStore();
-
-  if (store.channels[channelId]) {
-    return store.channels[channelId];
+  const stored = loadChannel(channelId);
+  if (stored) {
+    return stored;
   }
 
   // Return default config with channel ID
-  const defaultConfig = store.defaultConfig || DEFAULT_CHANNEL_CONFIG;
+  const defaultConfig = loadDefaultConfig();
   return {
     channelId,
     channelName: 'unknown',
@@ -58,6 +56,13 @@ export function getChannelConfig(channelId: string): ChannelConfig {
     autoUploadAssets: defaultConfig.autoUploadAssets ?? false,
     allowedFileTypes: defaultConfig.allowedFileTypes ?? [],
     maxFileSizeMb: defaultConfig.maxFileSizeMb ?? 5,
+    model: defaultConfig.model,
+    fallbackModels: defaultConfig.fallbackModels,
+    maxConcurrent: defaultConfig.maxConcurrent,
+    timeoutSeconds: defaultConfig.timeoutSeconds,
+    idleTimeoutSeconds: defaultConfig.idleTimeoutSeconds,
+    mergeQueuedMessages: defaultConfig.mergeQueuedMessages,
+    outputStyle: defaultConfig.outputStyle,
   };
 }
 
@@ -88,36 +93,34 @@ export function updateChannelConfig(
   channelId: string,
   updates: Partial<ChannelConfig>
 ): ChannelConfig {
-  const store = loadChannelStore();
-  const existing = store.channels[channelId] || getChannelConfig(channelId);
-
-  store.channels[channelId] = {
-    ...existing,
-    ...updates,
-    channelId,
-  };
+  return transaction(() => {
+    const config: ChannelConfig = {
+      ...getChannelConfig(channelId),
+      ...updates,
+      channelId,
+    };
 
-  saveChannelStore(store);
-  return store.channels[channelId];
+    getDatabase()
+      .query(`INSERT INTO channels (channel_id, config, updated_at) VALUES (?, ?, ?)
+              ON CONFLICT (channel_id) DO UPDATE SET config = excluded.config, updated_at = excluded.updated_at`)
+      .run(channelId, JSON.stringify(config), new Date().toISOString());
+    return config;
+  });
 }
 
 /**
  * Get all configured channels
  */
 export function getAllChannels(): ChannelConfig[] {
-  const store = loadChannelStore();
-  return Object.values(store.channels);
+  return getDatabase()
+    .query<{ config: string }, []>('SELECT config FROM channels ORDER BY channel_id')
+    .all()
+    .map((row) => JSON.parse(row.config));
 }
 
 /**
  * Delete channel configuration
  */
 export function deleteChannelConfig(channelId: string): boolean {
-  const store = loadChannelStore();
-  if (store.channels[channelId]) {
-    delete store.channels[channelId];
-    saveChannelStore(store);
-    return true;
-  }
-  return false;
+  return getDatabase().query('DELETE FROM channels WHERE channel_id = ?').run(channelId).changes > 0;
 }
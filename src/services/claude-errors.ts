@@ -0,0 +1,147 @@
+// Claude CLI failure classification and friendly Slack explanations
+import type { SlackButton } from '../types/slack';
+
+export type ClaudeErrorKind =
+  | 'auth_expired'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'context_too_long'
+  | 'binary_missing'
+  | 'permission_denied'
+  | 'max_turns'
+  | 'tool_crash'
+  | 'unknown';
+
+export interface ClaudeRunDetails {
+  exitCode?: number | null;
+  stderr?: string;
+  resultText?: string;
+  resultSubtype?: string;
+}
+
+/** Button value prefix for "Retry" actions (the rest of the value is the prompt) */
+export const RETRY_PREFIX = '__RETRY__:';
+
+/**
+ * A failed Claude run: non-zero exit, is_error result, or spawn failure
+ */
+export class ClaudeRunError extends Error {
+  constructor(
+    public readonly kind: ClaudeErrorKind,
+    public readonly details: ClaudeRunDetails
+  ) {
+    super(buildErrorMessage(kind, details));
+    this.name = 'ClaudeRunError';
+  }
+
+  /** Worth retrying on a different model */
+  get isRetryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'overloaded';
+  }
+}
+
+function buildErrorMessage(kind: ClaudeErrorKind, details: ClaudeRunDetails): string {
+  const detail = details.resultText || details.stderr?.trim().split('\n').pop() || '';
+  const exit = details.exitCode != null ? ` (exit ${details.exitCode})` : '';
+  return `Claude run failed: ${kind}${exit}${detail ? ` — ${detail.slice(0, 200)}` : ''}`;
+}
+
+/**
+ * Classify a failed run from its exit code, stderr, and result event
+ */
+export function classifyClaudeError(details: ClaudeRunDetails): ClaudeErrorKind {
+  const text = `${details.resultText || ''}\n${details.stderr || ''}`;
+
+  if (details.resultSubtype === 'error_max_turns') return 'max_turns';
+  if (/command not found|ENOENT|no such file or directory.*claude/i.test(text)) return 'binary_missing';
+  if (/invalid api key|authentication_error|oauth token (has )?expired|not logged in|please run \/login|\b401\b/i.test(text)) {
+    return 'auth_expired';
+  }
+  if (/overloaded|\b529\b/i.test(text)) return 'overloaded';
+  if (/rate.?limit|\b429\b|usage limit/i.test(text)) return 'rate_limited';
+  if (/prompt is too long|context (length|window)|maximum context|too many tokens/i.test(text)) return 'context_too_long';
+  if (/permission denied|EACCES|EPERM/i.test(text)) return 'permission_denied';
+  if (details.resultSubtype === 'error_during_execution' || /tool.*(crash|failed)|unhandled|panic/i.test(text)) {
+    return 'tool_crash';
+  }
+  return 'unknown';
+}
+
+/**
+ * Build the Slack explanation and next-step buttons for a failed run
+ */
+export function describeClaudeError(
+  error: ClaudeRunError,
+  originalText: string
+): { text: string; actions: SlackButton[] } {
+  const retry: SlackButton = {
+    type: 'button',
+    text: { type: 'plain_text', text: 'Retry', emoji: true },
+    action_id: `retry_${Date.now()}`,
+    value: buildRetryValue(originalText),
+    style: 'primary',
+  };
+
+  switch (error.kind) {
+    case 'auth_expired':
+      return {
+        text: ":key: Claude's login on the bridge host has expired or is invalid. An admin needs to run `claude` and `/login` on the host (or refresh the API key), then retry.",
+        actions: [retry],
+      };
+    case 'rate_limited':
+      return {
+        text: ':hourglass: Claude is rate-limited right now. Give it a few minutes, then retry.',
+        actions: [retry],
+      };
+    case 'overloaded':
+      return {
+        text: ':cloud: The Claude API is overloaded at the moment. Retrying in a minute usually works.',
+        actions: [retry],
+      };
+    case 'context_too_long':
+      return {
+        text: ':scroll: This conversation is too long for Claude\'s context window. Start a new thread (paste a short summary of where you were) to continue.',
+        actions: [],
+      };
+    case 'binary_missing':
+      return {
+        text: ":wrench: The `claude` CLI isn't installed or isn't on the bridge's PATH. An admin needs to install Claude Code on the host.",
+        actions: [],
+      };
+    case 'permission_denied':
+      return {
+        text: ':no_entry: Claude was denied access to something it needed (file permissions or the working directory). Check the bridge host\'s permissions, then retry.',
+        actions: [retry],
+      };
+    case 'max_turns':
+      return {
+        text: ':repeat: Claude hit its turn limit before finishing.',
+        actions: [{
+          ...retry,
+          text: { type: 'plain_text', text: 'Continue', emoji: true },
+          value: `${RETRY_PREFIX}Continue where you left off.`,
+        }],
+      };
+    case 'tool_crash':
+      return {
+        text: ':boom: A tool crashed while Claude was working on this.',
+        actions: [retry],
+      };
+    default: {
+      const exit = error.details.exitCode != null ? ` (exit code ${error.details.exitCode})` : '';
+      const detail = error.details.resultText || error.details.stderr?.trim().split('\n').pop();
+      return {
+        text: `:x: Claude stopped unexpectedly${exit}.${detail ? `\n> ${detail.slice(0, 300)}` : ''}`,
+        actions: [retry],
+      };
+    }
+  }
+}
+
+/**
+ * Button values are capped at 2000 chars — fall back to a generic retry prompt
+ */
+function buildRetryValue(originalText: string): string {
+  const value = `${RETRY_PREFIX}${originalText}`;
+  return value.length <= 2000 ? value : `${RETRY_PREFIX}Please retry my previous request.`;
+}
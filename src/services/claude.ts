@@ -4,6 +4,17 @@ import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import type { DeskDefinition } from '../types/desk';
+import type { ContentBlock, ResultEvent, StreamEvent, TokenUsage } from '../types/stream';
+import type { TokenBreakdown } from '../types/usage';
+import { ClaudeRunError, classifyClaudeError } from './claude-errors';
+import { buildDeskPermissions, writeDeskSettings, type DeskPermissions } from './desk-permissions';
+import { buildDeskMcpConfig, writeDeskMcpConfig, mcpAllowRules } from './desk-mcp';
+import { buildSlackSystemPrompt } from './prompt-templates';
+import { mintSessionToken, revokeToken } from './bridge-tokens';
+import { getCallableDesks, getDeskCallTimeoutSeconds } from './desk-comms';
+import type { OutputStyle } from '../types/config';
+
+export type { ContentBlock, StreamEvent } from '../types/stream';
 
 export interface ClaudeOptions {
   sessionId?: string;   // For new sessions
@@ -13,40 +24,68 @@ export interface ClaudeOptions {
   permissionMode?: string;
   desk?: DeskDefinition; // Desk context for routing
   verbose?: boolean;     // Pass --verbose to Claude CLI (default: true)
+  signal?: AbortSignal;  // Kills the claude process when aborted
+  timeoutMs?: number;    // Wall-clock limit for the whole run
+  idleTimeoutMs?: number; // Kill the run if stdout is silent this long
+  outputStyle?: OutputStyle; // Slack response format (default: structured)
+  userId?: string;       // Slack user, for the system prompt template
+  channelId?: string;    // Slack channel (prompt template, Bridge API token scope)
+  threadTs?: string;     // Slack thread (Bridge API token scope)
 }
 
-export interface StreamEvent {
-  type: 'system' | 'assistant' | 'user' | 'tool_use' | 'tool_result' | 'result';
-  subtype?: string;
-  session_id?: string;
-  message?: {
-    role?: string;
-    content?: ContentBlock[];
-  };
-  tool?: string;
-  tool_input?: unknown;
-  result?: string;
-  is_error?: boolean;
-  cost_usd?: number;
-}
-
-export interface ContentBlock {
-  type: string;
-  text?: string;
-  content?: string;
+/**
+ * Thrown when a run is killed by the wall-clock or idle watchdog
+ */
+export class ClaudeTimeoutError extends Error {
+  constructor(
+    public readonly kind: 'wall' | 'idle',
+    public readonly limitMs: number
+  ) {
+    super(kind === 'wall'
+      ? `Claude run exceeded its time limit (${Math.round(limitMs / 1000)}s)`
+      : `Claude produced no output for ${Math.round(limitMs / 1000)}s`);
+    this.name = 'ClaudeTimeoutError';
+  }
 }
 
 /**
  * Extract text from content blocks
  */
-export function extractText(content: ContentBlock[] | undefined): string {
+export function extractText(content: ContentBlock[] | string | undefined): string {
   if (!content) return '';
+  if (typeof content === 'string') return content.trim();
   return content
-    .map(block => block.text || block.content || '')
+    .map(block => block.type === 'text' ? block.text : '')
     .join('')
     .trim();
 }
 
+/**
+ * Get the run's cost from a result event (newer CLIs use total_cost_usd)
+ */
+export function getResultCost(event: ResultEvent): number {
+  return event.total_cost_usd ?? event.cost_usd ?? 0;
+}
+
+/**
+ * Convert API token usage into the bridge's usage breakdown
+ */
+export function toTokenBreakdown(usage: TokenUsage | undefined): TokenBreakdown {
+  return {
+    input: usage?.input_tokens ?? 0,
+    output: usage?.output_tokens ?? 0,
+    cacheCreation: usage?.cache_creation_input_tokens ?? 0,
+    cacheRead: usage?.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Tokens counted against rate limits: everything except cache reads
+ */
+export function countBillableTokens(tokens: TokenBreakdown): number {
+  return tokens.input + tokens.output + tokens.cacheCreation;
+}
+
 /**
  * Execute Claude CLI and yield streaming events
  */
@@ -57,12 +96,35 @@ export async function* executeClaudeStreaming(
   const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
   const cwd = options.cwd || process.env.BRIDGE_DEFAULT_CWD || paiDir;
 
-  const settingsPath = join(paiDir, 'settings.json');
+  let settingsPath = join(paiDir, 'settings.json');
+
+  // Bridge API location (also used to keep API calls allowed under desk restrictions)
+  const bridgeApiPort = process.env.BRIDGE_API_PORT || '3848';
+  const bridgeApiUrl = `http://localhost:${bridgeApiPort}`;
 
   // Build desk context if provided
   let deskContext = '';
+  let deskPermissions: DeskPermissions | null = null;
+  let mcpConfigArg: string | null = null;
   if (options.desk) {
     const desk = options.desk;
+    const deskSessionId = options.sessionId || options.resumeId;
+
+    // Enforce boundaries through permission rules (the prose below only informs the model)
+    deskPermissions = buildDeskPermissions(desk, cwd, bridgeApiUrl);
+
+    // Desk MCP servers: a per-session config, with their tools pre-approved
+    const mcpConfig = buildDeskMcpConfig(desk);
+    if (mcpConfig) {
+      deskPermissions.allowedTools.push(...mcpAllowRules(mcpConfig));
+      mcpConfigArg = deskSessionId
+        ? writeDeskMcpConfig(deskSessionId, mcpConfig)
+        : JSON.stringify(mcpConfig);
+    }
+
+    if (deskSessionId) {
+      settingsPath = writeDeskSettings(deskSessionId, deskPermissions, settingsPath);
+    }
 
     // Load always_load knowledge files
     const knowledgeContent: string[] = [];
@@ -86,6 +148,7 @@ BOUNDARIES:
 - Writable paths: ${(desk.boundaries.writable || []).join(', ') || 'none'}
 - Readable paths: ${(desk.boundaries.readable || []).join(', ') || 'none'}
 - Blocked paths: ${(desk.boundaries.blocked || []).join(', ') || 'none'}
+These boundaries are enforced: tool calls outside them will be denied.
 
 ${desk.system_prompt_suffix || ''}
 
@@ -95,46 +158,25 @@ ${knowledgeContent.length > 0 ? '--- LOADED KNOWLEDGE ---\n' + knowledgeContent.
     console.log(`[Claude] Injecting desk context for: ${desk.slug}`);
   }
 
-  // Build bridge API context
-  const bridgeApiPort = process.env.BRIDGE_API_PORT || '3848';
-  const bridgeApiSecret = process.env.BRIDGE_API_SECRET || '';
-  const authHeader = bridgeApiSecret ? `-H "Authorization: Bearer ${bridgeApiSecret}"` : '';
-
-  // Reinforce structured output format for Slack responses
-  const slackSystemPrompt = `CRITICAL OVERRIDE - SLACK CHANNEL RESPONSE FORMAT:
-
-You are responding via the PAI Slack Bridge. The "short and concise" CLI instruction does NOT apply here.
-
-MANDATORY: Use the CORE structured output format for EVERY response, regardless of complexity:
-- Simple questions: USE STRUCTURED FORMAT
-- "I can't do that" responses: USE STRUCTURED FORMAT
-- Greetings: USE STRUCTURED FORMAT
-- Everything: USE STRUCTURED FORMAT
-
-Required sections for ALL responses:
-📋 SUMMARY | 🔍 ANALYSIS | ⚡ ACTIONS | ✅ RESULTS | 📊 STATUS | 📁 CAPTURE | ➡️ NEXT | 📖 STORY EXPLANATION | 🎯 COMPLETED
-
-The 🎯 COMPLETED line is spoken aloud via voice synthesis. Keep it 8-12 words, never start with "Completed".
-
-This is a CONSTITUTIONAL requirement. No exceptions.
-
---- BRIDGE API ---
-You have access to a local Bridge API for sending files and interactive messages back to the Slack thread.
-The current session ID is available as SESSION_ID in your environment context.
-
-SEND A FILE to the current Slack thread:
-curl -s -X POST http://localhost:${bridgeApiPort}/send-file ${authHeader} -H "Content-Type: application/json" -d '{"sessionId":"SESSION_ID_HERE","filePath":"/path/to/file","comment":"optional comment"}'
-
-SEND A MESSAGE WITH BUTTONS (for presenting 2-4 options to the user):
-curl -s -X POST http://localhost:${bridgeApiPort}/send-message ${authHeader} -H "Content-Type: application/json" -d '{"sessionId":"SESSION_ID_HERE","text":"Choose an option:","blocks":[{"type":"section","text":{"type":"mrkdwn","text":"Choose an option:"}},{"type":"actions","elements":[{"type":"button","text":{"type":"plain_text","text":"Option A"},"action_id":"opt_a","value":"I choose Option A"},{"type":"button","text":{"type":"plain_text","text":"Option B"},"action_id":"opt_b","value":"I choose Option B"}]}]}'
-
-When presenting 2-4 choices to the user, prefer buttons over numbered lists.
-When you create a file the user needs, use the send-file endpoint to deliver it to the thread.
-Replace SESSION_ID_HERE with the actual session ID from the current context.
-
-INBOUND FILES: When a user attaches files (images, PDFs, text), their local paths are prepended to the message as [Attached: /path/to/file]. Use the Read tool to view them — it natively supports images (PNG, JPG, GIF, WebP) and PDFs.
---- END BRIDGE API ---
-${deskContext}`;
+  // Bridge API access: the child gets its session ID, the API URL, and a run token in its
+  // environment, so the prompt can reference them instead of the model guessing
+  const bridgeSessionId = options.sessionId || options.resumeId;
+  const authHeader = '-H "Authorization: Bearer $BRIDGE_API_TOKEN"';
+
+  // Slack system prompt from templates (output style, Bridge API usage, desk context)
+  const slackSystemPrompt = buildSlackSystemPrompt({
+    outputStyle: options.outputStyle || 'structured',
+    sessionId: bridgeSessionId,
+    apiPort: bridgeApiPort,
+    apiUrl: bridgeApiUrl,
+    authHeader,
+    userId: options.userId,
+    channelId: options.channelId,
+    deskSlug: options.desk?.slug,
+    deskContext,
+    callableDesks: options.desk ? getCallableDesks(options.desk) : [],
+    deskCallTimeoutSeconds: getDeskCallTimeoutSeconds(),
+  });
 
   const useVerbose = options.verbose !== false;
 
@@ -143,11 +185,32 @@ ${deskContext}`;
     '--output-format', 'stream-json',
     ...(useVerbose ? ['--verbose'] : []),
     '--model', options.model || 'sonnet',
-    '--permission-mode', options.permissionMode || 'acceptEdits',
+    // Restricted desks use "default" so edits outside the allowed paths are refused headlessly
+    '--permission-mode', options.permissionMode || (deskPermissions?.restrictWrites ? 'default' : 'acceptEdits'),
     '--settings', settingsPath,
     '--append-system-prompt', slackSystemPrompt,
   ];
 
+  if (deskPermissions) {
+    if (deskPermissions.allowedTools.length > 0) {
+      args.push('--allowedTools', deskPermissions.allowedTools.join(','));
+    }
+    if (deskPermissions.disallowedTools.length > 0) {
+      args.push('--disallowedTools', deskPermissions.disallowedTools.join(','));
+    }
+    // The generated settings already carry the PAI settings; don't let user-level allow rules widen them
+    if (deskPermissions.restrictWrites || deskPermissions.restrictBash) {
+      args.push('--setting-sources', 'project,local');
+    }
+  }
+
+  if (mcpConfigArg) {
+    args.push('--mcp-config', mcpConfigArg);
+  }
+  if (options.desk?.mcp?.strict) {
+    args.push('--strict-mcp-config');
+  }
+
   // Session handling: resume existing or start new with specific ID
   if (options.resumeId) {
     args.push('--resume', options.resumeId);
@@ -155,34 +218,89 @@ ${deskContext}`;
     args.push('--session-id', options.sessionId);
   }
 
-  // Add the message
-  args.push(message);
+  // Add the message ("--" stops variadic flags like --allowedTools / --mcp-config from swallowing it)
+  args.push('--', message);
 
   console.log(`[Claude] Spawning: claude ${args.join(' ')}`);
   console.log(`[Claude] CWD: ${cwd}`);
   console.log(`[Claude] PAI_DIR: ${paiDir}`);
 
-  const { CLAUDECODE, ...cleanEnv } = process.env;
-  const proc = spawn(['claude', ...args], {
-    cwd,
-    env: {
-      ...cleanEnv,
-      PAI_DIR: paiDir,  // Ensure PAI_DIR is set for hooks
-    },
-    stdout: 'pipe',
-    stderr: 'pipe',
-  });
+  // Cancelled before a worker picked it up — nothing to spawn
+  if (options.signal?.aborted) {
+    console.log('[Claude] Run cancelled before spawn');
+    return;
+  }
+
+  const { CLAUDECODE, BRIDGE_API_SECRET, ...cleanEnv } = process.env;
+  // The run token only works for this session's thread and is revoked when the run ends
+  const runToken = bridgeSessionId && options.channelId && options.threadTs
+    ? mintSessionToken(
+        { sessionId: bridgeSessionId, channelId: options.channelId, threadTs: options.threadTs },
+        { ttlMs: options.timeoutMs }
+      )
+    : null;
+  let proc: Subprocess<'ignore', 'pipe', 'pipe'>;
+  try {
+    proc = spawn(['claude', ...args], {
+      cwd,
+      env: {
+        ...cleanEnv,
+        PAI_DIR: paiDir,  // Ensure PAI_DIR is set for hooks
+        BRIDGE_API_URL: bridgeApiUrl,
+        ...(runToken ? { BRIDGE_SESSION_ID: runToken.sessionId, BRIDGE_API_TOKEN: runToken.token } : {}),
+      },
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+  } catch (error) {
+    if (runToken) revokeToken(runToken.token);
+    const stderr = error instanceof Error ? error.message : String(error);
+    const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+    throw new ClaudeRunError(missing ? 'binary_missing' : classifyClaudeError({ stderr }), { stderr });
+  }
+
+  // Kill the process if the run is cancelled (closes stdout and ends the stream)
+  const onAbort = () => {
+    console.log(`[Claude] Run cancelled, killing process ${proc.pid}`);
+    proc.kill();
+  };
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  // Watchdogs: wall-clock limit for the run, idle limit reset on every stdout chunk
+  let timedOut: 'wall' | 'idle' | null = null;
+  const killForTimeout = (kind: 'wall' | 'idle') => {
+    if (timedOut) return;
+    timedOut = kind;
+    console.warn(`[Claude] ${kind === 'wall' ? 'Time limit' : 'Idle limit'} reached, killing process ${proc.pid}`);
+    proc.kill();
+  };
+  const wallTimer = options.timeoutMs
+    ? setTimeout(() => killForTimeout('wall'), options.timeoutMs)
+    : null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  const resetIdleTimer = () => {
+    if (!options.idleTimeoutMs) return;
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => killForTimeout('idle'), options.idleTimeoutMs);
+  };
+  resetIdleTimer();
 
   // Read stdout line by line
   const reader = proc.stdout.getReader();
   const decoder = new TextDecoder();
   let buffer = '';
+  let resultEvent: ResultEvent | null = null;
 
   try {
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
 
+      resetIdleTimer();
       buffer += decoder.decode(value, { stream: true });
 
       // Process complete lines
@@ -193,7 +311,8 @@ ${deskContext}`;
         if (!line.trim()) continue;
 
         try {
-          const event: StreamEvent = JSON.parse(line);
+          const event = JSON.parse(line) as StreamEvent;
+          if (event.type === 'result') resultEvent = event;
           yield event;
         } catch {
           // Skip non-JSON lines (like verbose output)
@@ -205,7 +324,8 @@ ${deskContext}`;
     // Process any remaining buffer
     if (buffer.trim()) {
       try {
-        const event: StreamEvent = JSON.parse(buffer);
+        const event = JSON.parse(buffer) as StreamEvent;
+        if (event.type === 'result') resultEvent = event;
         yield event;
       } catch {
         console.log(`[Claude] Final non-JSON: ${buffer.slice(0, 100)}`);
@@ -213,6 +333,10 @@ ${deskContext}`;
     }
   } finally {
     reader.releaseLock();
+    if (runToken) revokeToken(runToken.token);
+    options.signal?.removeEventListener('abort', onAbort);
+    if (wallTimer) clearTimeout(wallTimer);
+    if (idleTimer) clearTimeout(idleTimer);
   }
 
   // Wait for process to complete
@@ -235,6 +359,27 @@ ${deskContext}`;
   if (stderr) {
     console.error(`[Claude] Stderr: ${stderr}`);
   }
+
+  if (timedOut === 'wall') {
+    throw new ClaudeTimeoutError('wall', options.timeoutMs!);
+  }
+  if (timedOut === 'idle') {
+    throw new ClaudeTimeoutError('idle', options.idleTimeoutMs!);
+  }
+
+  // A cancelled run exits non-zero by design — not a failure
+  if (options.signal?.aborted) return;
+
+  const result = resultEvent as ResultEvent | null;
+  if (exitCode !== 0 || result?.is_error) {
+    const details = {
+      exitCode,
+      stderr,
+      resultText: result?.is_error ? result.result : undefined,
+      resultSubtype: result?.subtype,
+    };
+    throw new ClaudeRunError(classifyClaudeError(details), details);
+  }
 }
 
 /**
@@ -249,14 +394,14 @@ export async function executeClaude(
   let costUsd: number | undefined;
 
   for await (const event of executeClaudeStreaming(message, options)) {
-    if (event.type === 'assistant' && event.message?.content) {
+    if (event.type === 'assistant') {
       fullText += extractText(event.message.content);
     }
     if (event.session_id) {
       sessionId = event.session_id;
     }
-    if (event.type === 'result' && event.cost_usd) {
-      costUsd = event.cost_usd;
+    if (event.type === 'result') {
+      costUsd = getResultCost(event);
     }
   }
 
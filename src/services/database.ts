@@ -0,0 +1,158 @@
+// SQLite storage for sessions, channel config and usage (bun:sqlite, versioned migrations)
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { importLegacyJsonStores } from './legacy-import';
+import { getStoragePaths } from './storage-paths';
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Schema history. Append new migrations; never edit one that has shipped.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      CREATE TABLE sessions (
+        channel_id TEXT NOT NULL,
+        thread_ts TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_activity TEXT NOT NULL,
+        verbose INTEGER,
+        model TEXT,
+        output_style TEXT,
+        PRIMARY KEY (channel_id, thread_ts)
+      );
+      CREATE INDEX idx_sessions_session_id ON sessions (session_id);
+      CREATE INDEX idx_sessions_last_activity ON sessions (last_activity);
+
+      CREATE TABLE channels (
+        channel_id TEXT PRIMARY KEY,
+        config TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE usage_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        category TEXT NOT NULL,
+        tokens_used INTEGER NOT NULL,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cache_creation_tokens INTEGER,
+        cache_read_tokens INTEGER,
+        cost_usd REAL NOT NULL,
+        model TEXT,
+        files_uploaded TEXT NOT NULL DEFAULT '[]',
+        duration_ms INTEGER NOT NULL
+      );
+      CREATE INDEX idx_usage_channel_timestamp ON usage_records (channel_id, timestamp);
+      CREATE INDEX idx_usage_user_timestamp ON usage_records (user_id, timestamp);
+      CREATE INDEX idx_usage_timestamp ON usage_records (timestamp);
+      CREATE INDEX idx_usage_session_id ON usage_records (session_id);
+    `,
+  },
+  {
+    version: 2,
+    name: 'session desk slug',
+    sql: `
+      ALTER TABLE sessions ADD COLUMN desk_slug TEXT;
+      CREATE INDEX idx_sessions_desk_activity ON sessions (desk_slug, last_activity);
+    `,
+  },
+];
+
+let db: Database | null = null;
+let openPath: string | null = null;
+
+/**
+ * Open the database on first use (or after storage is repointed): apply pending migrations,
+ * then import any legacy JSON stores
+ */
+export function getDatabase(): Database {
+  const path = getDatabasePath();
+  if (db && openPath === path) return db;
+  closeDatabase();
+
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const opened = new Database(path, { create: true });
+  opened.exec('PRAGMA journal_mode = WAL');
+  opened.exec('PRAGMA busy_timeout = 5000');
+  opened.exec('PRAGMA foreign_keys = ON');
+
+  migrate(opened);
+  db = opened;
+  openPath = path;
+  importLegacyJsonStores(opened);
+  return opened;
+}
+
+/**
+ * Run `fn` in a transaction (rolled back if it throws). Nested calls use savepoints.
+ */
+export function transaction<T>(fn: () => T): T {
+  return getDatabase().transaction(fn)();
+}
+
+/**
+ * Path of the database file
+ */
+export function getDatabasePath(): string {
+  return getStoragePaths().dbPath;
+}
+
+/**
+ * Close the database (on shutdown); the next getDatabase() reopens it
+ */
+export function closeDatabase(): void {
+  db?.close();
+  db = null;
+  openPath = null;
+}
+
+/**
+ * Apply migrations newer than the recorded schema version, each in its own transaction
+ */
+function migrate(database: Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const row = database.query<{ version: number | null }, []>('SELECT MAX(version) AS version FROM schema_migrations').get();
+  const current = row?.version ?? 0;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+
+    database.transaction(() => {
+      database.exec(migration.sql);
+      database.query('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, new Date().toISOString());
+    })();
+    console.log(`[Database] Applied migration ${migration.version}: ${migration.name}`);
+  }
+}
@@ -0,0 +1,385 @@
+// Inter-desk communication: desks delegate to, consult, or chain other desks through #agent-comms
+import { randomUUID } from 'crypto';
+import { getAllDesks, getDeskBySlug } from './desk-loader';
+import { loadManifest } from './session-manifest';
+import { getSession } from './session';
+import { getSlackClient, postMessage } from './slack';
+import { cancelJob, getJob } from './job-registry';
+import { yieldWorkerWhile } from './worker-pool';
+import type { BridgeToken } from './bridge-tokens';
+import type { DeskCallRequest, DeskCallResponse, DeskDefinition } from '../types/desk';
+
+// Default consultation timeout: under the 120s Claude's Bash tool gives the calling curl by default
+const DEFAULT_DESK_CALL_TIMEOUT_MS = 90_000;
+
+/** Deepest allowed chain of nested desk calls */
+const MAX_CALL_DEPTH = 3;
+
+// Comms threads remember their call chain this long (later runs in the thread can still call out)
+const CALL_CONTEXT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Longest message copied into #agent-comms (the desk itself gets the full text)
+const MAX_COMMS_MESSAGE_LENGTH = 3000;
+
+type ConsultationResult = { ok: true; text: string } | { ok: false; error: string };
+
+interface PendingConsultation {
+  callId: string;
+  resolve: (result: ConsultationResult) => void;
+}
+
+/**
+ * Who is running in a comms thread, and how it got there
+ */
+interface CallContext {
+  callId: string;
+  /** Desk slugs from the first caller down to the desk running in the thread */
+  chain: string[];
+  /** Nested /call-desk hops that led to this thread */
+  depth: number;
+  /** Slack user the original request came from */
+  userId: string;
+  createdAt: number;
+}
+
+/**
+ * The desk (if any) making a call, and the chain behind it
+ */
+interface Caller {
+  desk: DeskDefinition | null;
+  chain: string[];
+  depth: number;
+  userId: string;
+}
+
+export interface DeskCallResult {
+  status: number;
+  response: DeskCallResponse;
+}
+
+// Consultations waiting for the target desk's answer (key: the stage's comms thread_ts)
+const pendingConsultations: Map<string, PendingConsultation> = new Map();
+
+// Call chains of comms threads (key: comms thread_ts)
+const callContexts: Map<string, CallContext> = new Map();
+
+/**
+ * The #agent-comms channel ID, or '' when inter-desk calls are disabled
+ * (read on each call, so AGENT_COMMS_CHANNEL from .env applies)
+ */
+export function getAgentCommsChannel(): string {
+  return process.env.AGENT_COMMS_CHANNEL || '';
+}
+
+/**
+ * How long a consultation waits for each desk's answer (DESK_CALL_TIMEOUT_MS)
+ */
+function getDeskCallTimeoutMs(): number {
+  return parseInt(process.env.DESK_CALL_TIMEOUT_MS || String(DEFAULT_DESK_CALL_TIMEOUT_MS), 10);
+}
+
+/**
+ * How long a consultation waits for each desk's answer (seconds)
+ */
+export function getDeskCallTimeoutSeconds(): number {
+  return Math.round(getDeskCallTimeoutMs() / 1000);
+}
+
+/**
+ * Check delegation permissions. Returns the reason a call is refused, or null.
+ */
+export function checkDeskCall(source: DeskDefinition | null, target: DeskDefinition): string | null {
+  const canCall = source?.delegation?.can_call;
+  if (source && canCall?.length && !canCall.includes(target.slug)) {
+    return `Desk "${source.slug}" may not call "${target.slug}" (delegation.can_call)`;
+  }
+  if (target.delegation?.accepts_delegations === false) {
+    return `Desk "${target.slug}" does not accept delegations`;
+  }
+  if (target.routing.mentions.length === 0) {
+    return `Desk "${target.slug}" has no @mention to route to`;
+  }
+  return null;
+}
+
+/**
+ * Desks the given desk is allowed to call (for the system prompt)
+ */
+export function getCallableDesks(source: DeskDefinition): DeskDefinition[] {
+  if (!getAgentCommsChannel()) return [];
+  return getAllDesks().filter((desk) => desk.slug !== source.slug && !checkDeskCall(source, desk));
+}
+
+/**
+ * Hand a finished run's response to the consultation waiting on its comms thread
+ */
+export function resolvePendingConsultation(threadTs: string, responseText: string): boolean {
+  return settleConsultation(threadTs, { ok: true, text: responseText });
+}
+
+/**
+ * Settle the consultation waiting on a comms thread (only `expected`, when given)
+ */
+function settleConsultation(threadTs: string, result: ConsultationResult, expected?: PendingConsultation): boolean {
+  const pending = pendingConsultations.get(threadTs);
+  if (!pending || (expected && pending !== expected)) return false;
+  pendingConsultations.delete(threadTs);
+  console.log(`[DeskComms] ${pending.callId} ${result.ok ? 'answered' : `failed: ${result.error}`} (${threadTs})`);
+  pending.resolve(result);
+  return true;
+}
+
+/**
+ * Work out who is calling: a desk running in a comms thread (inherits that thread's chain)
+ * or a session in a user thread (its desk manifest, if any)
+ */
+function resolveCaller(token: BridgeToken): Caller {
+  const context = token.channelId === getAgentCommsChannel() ? callContexts.get(token.threadTs) : undefined;
+  if (context) {
+    const slug = context.chain[context.chain.length - 1];
+    return { desk: getDeskBySlug(slug), chain: context.chain, depth: context.depth, userId: context.userId };
+  }
+
+  const deskSlug = loadManifest(token.sessionId)?.desk_slug;
+  return {
+    desk: deskSlug ? getDeskBySlug(deskSlug) : null,
+    chain: deskSlug ? [deskSlug] : [],
+    depth: 0,
+    userId: getSession(token.channelId, token.threadTs)?.userId || 'bridge',
+  };
+}
+
+/**
+ * Handle a /call-desk request from a Claude run (the token names the calling thread)
+ */
+export async function callDesk(request: DeskCallRequest, token: BridgeToken): Promise<DeskCallResult> {
+  const callId = randomUUID().slice(0, 8);
+  const fail = (status: number, error: string): DeskCallResult => {
+    console.warn(`[DeskComms] ${callId} refused: ${error}`);
+    return { status, response: { ok: false, callId, error } };
+  };
+
+  const commsChannel = getAgentCommsChannel();
+  if (!commsChannel) {
+    return fail(503, 'Inter-desk calls are disabled (AGENT_COMMS_CHANNEL is not set)');
+  }
+
+  sweepCallContexts();
+
+  const stages = request.mode === 'pipeline'
+    ? [request.targetDesk, ...(request.pipelineNext || [])]
+    : [request.targetDesk];
+
+  const caller = resolveCaller(token);
+  const depth = caller.depth + 1;
+  if (depth > MAX_CALL_DEPTH) {
+    return fail(409, `Call depth limit reached (${MAX_CALL_DEPTH}): ${caller.chain.join(' -> ')}`);
+  }
+
+  const desks: DeskDefinition[] = [];
+  for (const slug of stages) {
+    const desk = getDeskBySlug(slug);
+    if (!desk) return fail(404, `Unknown desk: ${slug}`);
+    if (caller.chain.includes(desk.slug)) {
+      return fail(409, `Loop detected: ${[...caller.chain, desk.slug].join(' -> ')}`);
+    }
+    const refusal = checkDeskCall(caller.desk, desk);
+    if (refusal) return fail(403, refusal);
+    desks.push(desk);
+  }
+
+  const sourceLabel = caller.desk?.slug || 'user session';
+  console.log(`[DeskComms] ${callId} ${request.mode}: ${sourceLabel} -> ${desks.map(d => d.slug).join(' -> ')} (depth ${depth})`);
+
+  const originLink = await getPermalink(token.channelId, token.threadTs);
+  const modeLabel = request.mode === 'delegate' ? 'Delegation' : request.mode === 'consult' ? 'Consultation' : 'Pipeline';
+  const headerLines = [
+    `:incoming_envelope: *${modeLabel}* \`${sourceLabel}\` → ${desks.map(d => `\`${d.slug}\``).join(' → ')} _(call ${callId})_`,
+    originLink ? `From: <${originLink}|originating thread>` : '',
+    request.originContext?.summary ? `> ${request.originContext.summary.slice(0, 500)}` : '',
+  ];
+  const header = await postMessage(commsChannel, headerLines.filter(Boolean).join('\n'), undefined, true);
+  const commsThreadTs = header.ts;
+  const commsLink = await getPermalink(commsChannel, commsThreadTs);
+  const commsRef = commsLink ? `<${commsLink}|#agent-comms thread>` : '#agent-comms';
+
+  const base = { ok: true, callId, commsChannelId: commsChannel, commsThreadTs };
+  const context = { callId, chain: caller.chain, depth, userId: caller.userId };
+
+  // Delegation: start the target desk and return straight away
+  if (request.mode === 'delegate') {
+    const desk = desks[0];
+    runStage(context, desk, request.message, commsThreadTs)
+      .catch((error) => console.error(`[DeskComms] ${callId} delegation to ${desk.slug} failed:`, error));
+    await postMessage(token.channelId, `:outbox_tray: Delegated to *${desk.name}* — follow along in ${commsRef}`, token.threadTs, true);
+    return { status: 200, response: base };
+  }
+
+  // Consultation and pipeline: each stage's answer feeds the next, the last one is returned
+  await postMessage(
+    token.channelId,
+    `:speech_balloon: Consulting ${desks.map(d => `*${d.name}*`).join(' → ')}... (${commsRef})`,
+    token.threadTs,
+    true
+  );
+
+  // The caller's run sits idle until the answers arrive, so its worker slot goes to the desks it consults
+  const runStages = async (): Promise<{ output: string } | { failedDesk: DeskDefinition; error: string }> => {
+    let output = '';
+    for (let i = 0; i < desks.length; i++) {
+      const desk = desks[i];
+      const input = i === 0
+        ? request.message
+        : `${request.message}\n\n--- OUTPUT FROM ${desks[i - 1].slug} ---\n${output}`;
+
+      // Later pipeline stages get their own thread, so each desk starts a fresh session under its own boundaries
+      const stageThreadTs = i === 0
+        ? commsThreadTs
+        : await openStageThread(callId, desk, i, desks.length, commsThreadTs, commsLink);
+      const result = await consult(context, desk, input, stageThreadTs);
+      if (!result.ok) return { failedDesk: desk, error: result.error };
+      output = result.text;
+    }
+    return { output };
+  };
+  const callerJob = getJob(token.channelId, token.threadTs);
+  const outcome = callerJob ? await yieldWorkerWhile(callerJob.key, runStages) : await runStages();
+
+  if ('failedDesk' in outcome) {
+    const { failedDesk, error } = outcome;
+    console.warn(`[DeskComms] ${callId} failed at ${failedDesk.slug}: ${error}`);
+    await postMessage(token.channelId, `:warning: Consultation with *${failedDesk.name}* failed: ${error} (${commsRef})`, token.threadTs, true);
+    return {
+      status: error.startsWith('No response within') ? 504 : 502,
+      response: { ...base, ok: false, error: `${failedDesk.slug}: ${error}` },
+    };
+  }
+  const { output } = outcome;
+
+  console.log(`[DeskComms] ${callId} completed (${output.length} chars)`);
+  await postMessage(token.channelId, `:white_check_mark: ${desks[desks.length - 1].name} answered (${commsRef})`, token.threadTs, true);
+  return { status: 200, response: { ...base, response: output } };
+}
+
+/**
+ * Run a stage and wait for its answer (resolved from the message handler, or timed out)
+ */
+function consult(
+  context: Omit<CallContext, 'createdAt'>,
+  desk: DeskDefinition,
+  text: string,
+  commsThreadTs: string
+): Promise<ConsultationResult> {
+  return new Promise((resolve) => {
+    // Stop the desk's run on timeout, so it gives its worker slot back instead of finishing for nobody
+    const timeout = setTimeout(() => {
+      const job = getJob(getAgentCommsChannel(), commsThreadTs);
+      if (job) cancelJob(job, 'timeout');
+      settleConsultation(commsThreadTs, { ok: false, error: `No response within ${getDeskCallTimeoutSeconds()}s` }, pending);
+    }, getDeskCallTimeoutMs());
+
+    const pending: PendingConsultation = {
+      callId: context.callId,
+      resolve: (result) => {
+        clearTimeout(timeout);
+        resolve(result);
+      },
+    };
+    pendingConsultations.set(commsThreadTs, pending);
+
+    // If the run ends without resolving (error, cancel, waiting on a question), report that
+    runStage(context, desk, text, commsThreadTs)
+      .then(() => settleConsultation(commsThreadTs, { ok: false, error: 'Finished without a response' }, pending))
+      .catch((error) => settleConsultation(commsThreadTs, {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Run failed',
+      }, pending));
+  });
+}
+
+/**
+ * Start a pipeline stage's own #agent-comms thread, linked from the call's thread. Returns its thread_ts.
+ */
+async function openStageThread(
+  callId: string,
+  desk: DeskDefinition,
+  index: number,
+  total: number,
+  callThreadTs: string,
+  callLink: string | null
+): Promise<string> {
+  const commsChannel = getAgentCommsChannel();
+  const stageLabel = `Stage ${index + 1}/${total} → \`${desk.slug}\``;
+  const header = await postMessage(
+    commsChannel,
+    [
+      `:arrow_right: *Pipeline* ${stageLabel} _(call ${callId})_`,
+      callLink ? `Call: <${callLink}|pipeline thread>` : '',
+    ].filter(Boolean).join('\n'),
+    undefined,
+    true
+  );
+
+  const stageLink = await getPermalink(commsChannel, header.ts);
+  await postMessage(commsChannel, `${stageLabel}: ${stageLink ? `<${stageLink}|stage thread>` : header.ts}`, callThreadTs, true);
+  return header.ts;
+}
+
+/**
+ * Post the task into the comms thread and run the target desk on it.
+ * The bridge ignores its own messages, so the run is started with a synthetic message.
+ */
+async function runStage(
+  context: Omit<CallContext, 'createdAt'>,
+  desk: DeskDefinition,
+  text: string,
+  commsThreadTs: string
+): Promise<void> {
+  const mention = desk.routing.mentions[0];
+  callContexts.set(commsThreadTs, {
+    ...context,
+    chain: [...context.chain, desk.slug],
+    createdAt: Date.now(),
+  });
+
+  const visible = text.length > MAX_COMMS_MESSAGE_LENGTH
+    ? `${text.slice(0, MAX_COMMS_MESSAGE_LENGTH)}\n_... (truncated)_`
+    : text;
+  const commsChannel = getAgentCommsChannel();
+  const posted = await postMessage(commsChannel, `${mention} ${visible}`, commsThreadTs);
+
+  const { handleMessage } = await import('../handlers/message');
+  await handleMessage({
+    type: 'message',
+    text: `${mention} ${text}`,
+    user: context.userId,
+    channel: commsChannel,
+    ts: posted.ts,
+    thread_ts: commsThreadTs,
+    deskSlug: desk.slug,
+  });
+}
+
+/**
+ * Permalink to a message, or null if Slack won't give one
+ */
+async function getPermalink(channel: string, ts: string): Promise<string | null> {
+  try {
+    const result = await getSlackClient().chat.getPermalink({ channel, message_ts: ts });
+    return result.permalink || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget call chains of comms threads that have gone quiet
+ */
+function sweepCallContexts(): void {
+  const cutoff = Date.now() - CALL_CONTEXT_TTL_MS;
+  for (const [threadTs, context] of callContexts) {
+    if (context.createdAt < cutoff && !pendingConsultations.has(threadTs)) {
+      callContexts.delete(threadTs);
+    }
+  }
+}
@@ -1,9 +1,9 @@
 // Desk definition loader - loads and caches YAML desk definitions
 import { readFileSync, existsSync, readdirSync, watch, type FSWatcher } from 'fs';
-import { join, basename } from 'path';
+import { join, basename, isAbsolute } from 'path';
 import { homedir } from 'os';
 import { parse as parseYaml } from 'yaml';
-import type { DeskDefinition, DeskDefaults } from '../types/desk';
+import type { DeskDefinition, DeskDefaults, DeskMcp } from '../types/desk';
 
 const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
 const DESKS_DIR = join(paiDir, 'MEMORY', 'desks');
@@ -30,6 +30,26 @@ function expandPaths(paths: string[] | undefined): string[] {
   return (paths || []).map(expandPath);
 }
 
+/**
+ * Resolve an MCP config file reference (relative paths are relative to the desks dir)
+ */
+function resolveMcpFile(p: string): string {
+  const expanded = expandPath(p);
+  return isAbsolute(expanded) ? expanded : join(DESKS_DIR, expanded);
+}
+
+/**
+ * Merge default and desk MCP servers (desk servers win on name clashes)
+ */
+function mergeMcp(desk: DeskMcp | undefined, defaults: DeskMcp | undefined): DeskMcp | undefined {
+  if (!desk && !defaults) return undefined;
+  return {
+    servers: { ...defaults?.servers, ...desk?.servers },
+    files: [...(defaults?.files || []), ...(desk?.files || [])].map(resolveMcpFile),
+    strict: desk?.strict ?? defaults?.strict,
+  };
+}
+
 /**
  * Load defaults from _defaults.yaml
  */
@@ -73,6 +93,7 @@ function applyDefaults(desk: DeskDefinition, defaults: DeskDefaults): DeskDefini
         ...expandPaths(defaults.boundaries?.blocked || []),
         ...expandPaths(desk.boundaries?.blocked || []),
       ],
+      allow_bash: desk.boundaries?.allow_bash ?? defaults.boundaries?.allow_bash,
     },
     knowledge: {
       always_load: [
@@ -92,6 +113,17 @@ function applyDefaults(desk: DeskDefinition, defaults: DeskDefaults): DeskDefini
       ...defaults.persistence,
       ...desk.persistence,
     },
+    execution: {
+      ...defaults.execution,
+      ...desk.execution,
+    },
+    model: desk.model || defaults.model,
+    fallback_models: desk.fallback_models || defaults.fallback_models,
+    mcp: mergeMcp(desk.mcp, defaults.mcp),
+    output_style: desk.output_style || defaults.output_style,
+    delegation: desk.delegation || defaults.delegation
+      ? { ...defaults.delegation, ...desk.delegation }
+      : undefined,
   };
 }
 
@@ -0,0 +1,59 @@
+// Desk MCP servers: compose a per-session --mcp-config from a desk's inline servers and files
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { DeskDefinition, McpServerConfig } from '../types/desk';
+import { getSessionFilePath } from './session-manifest';
+
+export interface McpConfig {
+  mcpServers: Record<string, McpServerConfig>;
+}
+
+/**
+ * Load the "mcpServers" object from an MCP config file
+ */
+function loadMcpFile(filePath: string): Record<string, McpServerConfig> {
+  if (!existsSync(filePath)) {
+    console.warn(`[DeskMcp] MCP config file not found: ${filePath}`);
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+    return parsed.mcpServers || {};
+  } catch (error) {
+    console.error(`[DeskMcp] Error loading ${filePath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Compose the desk's MCP config (files first, inline servers override by name).
+ * Returns null when the desk declares no servers.
+ */
+export function buildDeskMcpConfig(desk: DeskDefinition): McpConfig | null {
+  if (!desk.mcp) return null;
+
+  const mcpServers: Record<string, McpServerConfig> = {};
+  for (const filePath of desk.mcp.files || []) {
+    Object.assign(mcpServers, loadMcpFile(filePath));
+  }
+  Object.assign(mcpServers, desk.mcp.servers);
+
+  return Object.keys(mcpServers).length > 0 ? { mcpServers } : null;
+}
+
+/**
+ * Write the composed config next to the session manifest, returning its path
+ */
+export function writeDeskMcpConfig(sessionId: string, config: McpConfig): string {
+  const filePath = getSessionFilePath(sessionId, 'mcp.json');
+  writeFileSync(filePath, JSON.stringify(config, null, 2));
+  console.log(`[DeskMcp] Wrote session MCP config: ${filePath} (${Object.keys(config.mcpServers).join(', ')})`);
+  return filePath;
+}
+
+/**
+ * Allow rules for a config's servers — the desk author opted into these tools
+ */
+export function mcpAllowRules(config: McpConfig): string[] {
+  return Object.keys(config.mcpServers).map((name) => `mcp__${name}`);
+}
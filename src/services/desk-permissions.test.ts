@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+import { homedir } from 'os';
+import { join } from 'path';
+import { buildDeskPermissions } from './desk-permissions';
+import { SEND_CLI_PATH } from './prompt-templates';
+import type { DeskBoundaries, DeskDefinition } from '../types/desk';
+
+const CWD = '/work/repo';
+const API_URL = 'http://localhost:3848';
+
+function deskWith(boundaries: DeskBoundaries): DeskDefinition {
+  return {
+    name: 'Test Desk',
+    slug: 'test',
+    description: 'Desk for permission tests',
+    routing: { mentions: ['@test'], channel: null },
+    composition: {},
+    boundaries,
+    knowledge: {},
+    persistence: {},
+  };
+}
+
+const bridgeApiRules = [
+  `Bash(curl -s -X POST ${API_URL}/:*)`,
+  `Bash(curl -s -G ${API_URL}/:*)`,
+  `Bash(${SEND_CLI_PATH}:*)`,
+];
+
+describe('buildDeskPermissions', () => {
+  test('no boundaries leave tools unrestricted', () => {
+    const permissions = buildDeskPermissions(deskWith({}), CWD, API_URL);
+
+    expect(permissions).toEqual({
+      allowedTools: [],
+      disallowedTools: [],
+      additionalDirectories: [],
+      restrictWrites: false,
+      restrictBash: false,
+    });
+  });
+
+  test('blocked paths deny Read, Edit and Bash commands naming them', () => {
+    const permissions = buildDeskPermissions(deskWith({ blocked: ['.env', 'secrets/', '~/.aws/', '*.pem'] }), CWD, API_URL);
+
+    expect(permissions.disallowedTools).toEqual(expect.arrayContaining([
+      'Read(**/.env)', 'Edit(**/.env)', 'Bash(*.env*)',
+      'Read(**/secrets/**)', 'Edit(**/secrets/**)', 'Bash(*secrets*)',
+      'Read(~/.aws/**)', 'Edit(~/.aws/**)', 'Bash(*~/.aws*)', `Bash(*${join(homedir(), '.aws')}*)`,
+      'Read(**/*.pem)', 'Edit(**/*.pem)', 'Bash(**.pem*)',
+    ]));
+  });
+
+  test('blocked paths without writable still limit Bash to Bridge API calls', () => {
+    const permissions = buildDeskPermissions(deskWith({ blocked: ['secrets/'] }), CWD, API_URL);
+
+    expect(permissions.restrictWrites).toBe(false);
+    expect(permissions.restrictBash).toBe(true);
+    expect(permissions.allowedTools).toEqual(bridgeApiRules);
+    expect(permissions.allowedTools).not.toContain('Bash');
+  });
+
+  test('Bridge API curl calls cannot read or write local files', () => {
+    const { disallowedTools } = buildDeskPermissions(deskWith({ blocked: ['secrets/'] }), CWD, API_URL);
+
+    expect(disallowedTools).toEqual(expect.arrayContaining([
+      'Bash(curl *-d @*)',
+      'Bash(curl *-d@*)',
+      "Bash(curl *-d '@*)",
+      'Bash(curl *--data* @*)',
+      'Bash(curl *-F *)',
+      'Bash(curl *-T *)',
+      'Bash(curl *-o *)',
+      `Bash(${SEND_CLI_PATH} *--json*)`,
+    ]));
+  });
+
+  test('writable paths become Edit allow rules with restricted writes and Bash', () => {
+    const permissions = buildDeskPermissions(deskWith({ writable: ['src/api/', 'docs/*.md'] }), CWD, API_URL);
+
+    expect(permissions.restrictWrites).toBe(true);
+    expect(permissions.restrictBash).toBe(true);
+    expect(permissions.allowedTools).toEqual(['Edit(./src/api/**)', 'Edit(./docs/*.md)', ...bridgeApiRules]);
+  });
+
+  test('allow_bash keeps full Bash but still denies commands naming blocked paths', () => {
+    const permissions = buildDeskPermissions(
+      deskWith({ writable: ['src/'], blocked: ['secrets/'], allow_bash: true }),
+      CWD,
+      API_URL
+    );
+
+    expect(permissions.restrictBash).toBe(false);
+    expect(permissions.allowedTools).toContain('Bash');
+    expect(permissions.disallowedTools).toContain('Bash(*secrets*)');
+    expect(permissions.disallowedTools).not.toContain('Bash(curl *-d @*)');
+  });
+
+  test('readable paths become Read allow rules, with directories outside the cwd added', () => {
+    const permissions = buildDeskPermissions(
+      deskWith({ readable: ['docs/guides/', '~/shared/*.md', '/opt/specs/**'], writable: ['src/'] }),
+      CWD,
+      API_URL
+    );
+
+    expect(permissions.allowedTools).toEqual(expect.arrayContaining([
+      'Read(./docs/guides/**)', 'Read(~/shared/*.md)', 'Read(//opt/specs/**)',
+    ]));
+    expect(permissions.additionalDirectories).toEqual([join(homedir(), 'shared'), '/opt/specs']);
+  });
+});
@@ -0,0 +1,168 @@
+// Desk permissions: turn desk boundaries into Claude Code permission rules the CLI enforces
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import type { DeskDefinition } from '../types/desk';
+import { toPermissionPath, boundaryBaseDir } from '../lib/path-globs';
+import { getSessionFilePath } from './session-manifest';
+import { SEND_CLI_PATH } from './prompt-templates';
+
+// Tools that can modify files outside Edit(...) rules when left allowed
+const WRITE_CAPABLE_RULE = /^(Edit|Write|MultiEdit|NotebookEdit|Bash)(\(|$)/;
+const BASH_RULE = /^Bash(\(|$)/;
+
+// Common forms of curl options that read a local file into the request or write the response to one;
+// denied so the Bridge API curl rules can't carry a blocked file out or write outside the writable paths
+// ("@" alone would also catch Slack mentions like <@U0123> in message text)
+const CURL_FILE_OPTIONS = [
+  '-d @', '-d@', "-d '@", '-d "@',
+  '--data* @', "--data* '@", '--data* "@', '--data-urlencode',
+  '-F ', '--form', '-T ', '--upload-file', '-K ', '--config', '-o ', '--output',
+];
+
+/**
+ * Permission rules derived from a desk's boundaries
+ */
+export interface DeskPermissions {
+  /** Rules passed to --allowedTools (and the settings allow list) */
+  allowedTools: string[];
+  /** Rules passed to --disallowedTools (and the settings deny list) */
+  disallowedTools: string[];
+  /** Directories outside the cwd the desk may work in */
+  additionalDirectories: string[];
+  /** True when writes are limited to the writable paths */
+  restrictWrites: boolean;
+  /** True when Bash is limited to Bridge API calls */
+  restrictBash: boolean;
+}
+
+/**
+ * Build permission rules from desk boundaries:
+ * - blocked paths are denied for reading and editing, and Bash commands naming them are denied
+ * - when writable paths are listed, only they are editable
+ * - when writable or blocked paths are listed, Bash is limited to Bridge API calls that
+ *   don't read or write local files (unless boundaries.allow_bash is set), since any
+ *   other command could write anywhere or read a blocked file
+ */
+export function buildDeskPermissions(
+  desk: DeskDefinition,
+  cwd: string,
+  bridgeApiUrl: string
+): DeskPermissions {
+  const { writable = [], readable = [], blocked = [], allow_bash } = desk.boundaries;
+  const restrictWrites = writable.length > 0;
+  const restrictBash = (restrictWrites || blocked.length > 0) && !allow_bash;
+
+  const disallowedTools = blocked.flatMap((pattern) => {
+    const path = toPermissionPath(pattern, cwd);
+    return [
+      `Read(${path})`,
+      `Edit(${path})`,
+      ...commandPathForms(pattern).map((form) => `Bash(*${form}*)`),
+    ];
+  });
+
+  const allowedTools = readable.map((pattern) => `Read(${toPermissionPath(pattern, cwd)})`);
+  if (restrictWrites) {
+    allowedTools.push(...writable.map((pattern) => `Edit(${toPermissionPath(pattern, cwd)})`));
+  }
+  if (restrictBash) {
+    allowedTools.push(
+      `Bash(curl -s -X POST ${bridgeApiUrl}/:*)`,
+      `Bash(curl -s -G ${bridgeApiUrl}/:*)`,
+      `Bash(${SEND_CLI_PATH}:*)`
+    );
+    disallowedTools.push(
+      ...CURL_FILE_OPTIONS.map((option) => `Bash(curl *${option}*)`),
+      `Bash(${SEND_CLI_PATH} *--json*)` // Request body from stdin, i.e. a redirected file
+    );
+  } else if (restrictWrites) {
+    allowedTools.push('Bash');
+  }
+
+  const additionalDirectories = [...new Set(
+    [...writable, ...readable]
+      .map((pattern) => boundaryBaseDir(pattern, cwd))
+      .filter((dir): dir is string => !!dir && dir !== cwd && !dir.startsWith(`${cwd}/`))
+  )];
+
+  return {
+    allowedTools: [...new Set(allowedTools)],
+    disallowedTools: [...new Set(disallowedTools)],
+    additionalDirectories,
+    restrictWrites,
+    restrictBash,
+  };
+}
+
+/**
+ * How a blocked path can appear in a shell command (the path without directory or glob suffixes,
+ * plus the expanded form of a home-relative path)
+ */
+function commandPathForms(pattern: string): string[] {
+  const path = pattern.trim().replace(/(\/\*\*)?\/*$/, '').replace(/^(\.\/|\*\*\/)/, '');
+  if (!path) return [];
+  return path.startsWith('~/') ? [path, join(homedir(), path.slice(2))] : [path];
+}
+
+/**
+ * Write per-session settings: the PAI settings merged with the desk's permission rules.
+ * With restricted writes, write-capable allow rules from the base settings are dropped
+ * so that only the desk's writable paths are auto-approved; with restricted Bash, so are
+ * the base Bash rules.
+ */
+export function writeDeskSettings(
+  sessionId: string,
+  permissions: DeskPermissions,
+  baseSettingsPath: string
+): string {
+  let base: Record<string, any> = {};
+  if (existsSync(baseSettingsPath)) {
+    try {
+      base = JSON.parse(readFileSync(baseSettingsPath, 'utf-8'));
+    } catch (error) {
+      console.warn(`[DeskPermissions] Could not parse ${baseSettingsPath}, using empty base settings`);
+    }
+  }
+
+  const basePermissions = base.permissions || {};
+  const baseAllow: string[] = (basePermissions.allow || []).filter((rule: string) =>
+    !(permissions.restrictWrites && WRITE_CAPABLE_RULE.test(rule))
+    && !(permissions.restrictBash && BASH_RULE.test(rule))
+  );
+
+  const settings = {
+    ...base,
+    permissions: {
+      ...basePermissions,
+      allow: [...new Set([...baseAllow, ...permissions.allowedTools])],
+      deny: [...new Set([...(basePermissions.deny || []), ...permissions.disallowedTools])],
+      additionalDirectories: [...new Set([
+        ...(basePermissions.additionalDirectories || []),
+        ...permissions.additionalDirectories,
+      ])],
+      ...(permissions.restrictWrites ? { defaultMode: 'default' } : {}),
+    },
+  };
+
+  const filePath = getSessionFilePath(sessionId, 'settings.json');
+  writeFileSync(filePath, JSON.stringify(settings, null, 2));
+  console.log(`[DeskPermissions] Wrote session settings: ${filePath}`);
+  return filePath;
+}
+
+/**
+ * Delete a session's generated settings file
+ */
+export function deleteDeskSettings(sessionId: string): boolean {
+  const filePath = getSessionFilePath(sessionId, 'settings.json');
+  if (!existsSync(filePath)) return false;
+
+  try {
+    unlinkSync(filePath);
+    return true;
+  } catch (error) {
+    console.error(`[DeskPermissions] Error deleting ${filePath}:`, error);
+    return false;
+  }
+}
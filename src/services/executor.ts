@@ -0,0 +1,163 @@
+// Claude executors: the real CLI, or a replay of recorded stream-json fixtures for offline runs
+import { existsSync, readFileSync } from 'fs';
+import { executeClaudeStreaming, ClaudeTimeoutError, type ClaudeOptions, type StreamEvent } from './claude';
+import { ClaudeRunError, classifyClaudeError } from './claude-errors';
+import type { ResultEvent } from '../types/stream';
+
+/**
+ * Something that runs a prompt and yields stream-json events
+ */
+export interface ClaudeExecutor {
+  readonly name: string;
+  execute(message: string, options: ClaudeOptions): AsyncGenerator<StreamEvent>;
+}
+
+/**
+ * Executor that spawns the real `claude` binary
+ */
+export const cliExecutor: ClaudeExecutor = {
+  name: 'cli',
+  execute: executeClaudeStreaming,
+};
+
+/**
+ * Fixture directives (lines starting with "_" keys are not forwarded as events):
+ *   {"_delay_ms": 500}             pause before the next line
+ *   {"_error": "boom"}              fail like a crashed CLI (stderr "boom", exit 1)
+ *   {"_timeout": "idle" | "wall"}   throw a ClaudeTimeoutError
+ * Event lines may also carry "_delay_ms" to pause before being emitted.
+ * As with the real CLI, an is_error result event fails the run after it is emitted.
+ */
+interface FixtureDirective {
+  _delay_ms?: number;
+  _error?: string;
+  _timeout?: 'wall' | 'idle';
+}
+
+export interface ReplayOptions {
+  /** Multiplier for recorded delays (0 = no delays, 1 = real time) */
+  speed?: number;
+}
+
+/**
+ * Executor that replays a recorded stream-json fixture (one JSON event per line)
+ */
+export class ReplayExecutor implements ClaudeExecutor {
+  readonly name = 'replay';
+  private speed: number;
+
+  constructor(
+    private fixturePath: string,
+    options: ReplayOptions = {}
+  ) {
+    this.speed = options.speed ?? 1;
+  }
+
+  async *execute(message: string, options: ClaudeOptions): AsyncGenerator<StreamEvent> {
+    if (!existsSync(this.fixturePath)) {
+      throw new Error(`Replay fixture not found: ${this.fixturePath}`);
+    }
+
+    console.log(`[Replay] Replaying ${this.fixturePath} for: ${message.slice(0, 50)}...`);
+    const lines = readFileSync(this.fixturePath, 'utf-8').split('\n');
+    const sessionId = options.resumeId || options.sessionId;
+    const startTime = Date.now();
+    let failedResult: ResultEvent | null = null;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      if (options.signal?.aborted) {
+        console.log('[Replay] Run cancelled');
+        return;
+      }
+
+      let parsed: StreamEvent & FixtureDirective;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        console.log(`[Replay] Non-JSON: ${line.slice(0, 100)}`);
+        continue;
+      }
+
+      if (parsed._delay_ms) {
+        await this.wait(parsed._delay_ms, options, startTime);
+      }
+      if (parsed._error) {
+        const details = { exitCode: 1, stderr: parsed._error };
+        throw new ClaudeRunError(classifyClaudeError(details), details);
+      }
+      if (parsed._timeout) {
+        const limitMs = parsed._timeout === 'wall' ? options.timeoutMs : options.idleTimeoutMs;
+        throw new ClaudeTimeoutError(parsed._timeout, limitMs || 0);
+      }
+      if (!parsed.type) continue; // Pure directive line
+
+      const { _delay_ms, _error, _timeout, ...event } = parsed;
+
+      // Rewrite the recorded session ID so the bridge doesn't see a mismatch
+      if (event.session_id && sessionId) {
+        event.session_id = sessionId;
+      }
+
+      if (event.type === 'result' && event.is_error) failedResult = event as ResultEvent;
+      yield event as StreamEvent;
+    }
+
+    if (failedResult && !options.signal?.aborted) {
+      const details = { exitCode: 1, resultText: failedResult.result, resultSubtype: failedResult.subtype };
+      throw new ClaudeRunError(classifyClaudeError(details), details);
+    }
+  }
+
+  /**
+   * Sleep for a recorded delay, enforcing the run's idle and wall-clock limits
+   */
+  private async wait(delayMs: number, options: ClaudeOptions, startTime: number): Promise<void> {
+    const scaled = delayMs * this.speed;
+
+    if (options.idleTimeoutMs && scaled >= options.idleTimeoutMs) {
+      await Bun.sleep(options.idleTimeoutMs);
+      throw new ClaudeTimeoutError('idle', options.idleTimeoutMs);
+    }
+    if (options.timeoutMs && Date.now() - startTime + scaled >= options.timeoutMs) {
+      await Bun.sleep(Math.max(0, options.timeoutMs - (Date.now() - startTime)));
+      throw new ClaudeTimeoutError('wall', options.timeoutMs);
+    }
+
+    if (scaled > 0) {
+      await Bun.sleep(scaled);
+    }
+  }
+}
+
+/**
+ * Pick the executor from BRIDGE_EXECUTOR ("cli" or "replay:/path/to/fixture.jsonl")
+ */
+function executorFromEnv(): ClaudeExecutor {
+  const spec = process.env.BRIDGE_EXECUTOR || 'cli';
+  if (spec.startsWith('replay:')) {
+    const speed = parseFloat(process.env.BRIDGE_REPLAY_SPEED || '1');
+    console.log(`[Executor] Using replay executor: ${spec.slice('replay:'.length)}`);
+    return new ReplayExecutor(spec.slice('replay:'.length), { speed });
+  }
+  return cliExecutor;
+}
+
+let currentExecutor: ClaudeExecutor | null = null;
+
+/**
+ * Get the active executor
+ */
+export function getExecutor(): ClaudeExecutor {
+  if (!currentExecutor) {
+    currentExecutor = executorFromEnv();
+  }
+  return currentExecutor;
+}
+
+/**
+ * Swap the active executor (e.g. a ReplayExecutor for offline runs)
+ */
+export function setExecutor(executor: ClaudeExecutor): void {
+  currentExecutor = executor;
+}
@@ -0,0 +1,120 @@
+// Send-file sandbox: decide whether a path may be uploaded to a session's Slack thread
+import { realpathSync, statSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import { homedir } from 'os';
+import { loadManifest } from './session-manifest';
+import { getChannelConfig, isChannelEnabled } from './channel-config';
+import { matchesBoundary } from '../lib/path-globs';
+
+const PAI_DIR = process.env.PAI_DIR || join(homedir(), '.claude');
+const DEFAULT_CWD = process.env.BRIDGE_DEFAULT_CWD || PAI_DIR;
+
+/**
+ * Never uploaded, whatever the desk or channel allows (extend with BRIDGE_SEND_FILE_DENY)
+ */
+const GLOBAL_DENY_LIST = [
+  '~/.ssh/',
+  '~/.aws/',
+  '~/.gnupg/',
+  '~/.config/gcloud/',
+  '~/.kube/',
+  '~/.docker/config.json',
+  '~/.netrc',
+  '~/.npmrc',
+  '~/.git-credentials',
+  join(PAI_DIR, '.credentials.json'),
+  '/etc/shadow',
+  '/etc/sudoers',
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  'id_rsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  ...(process.env.BRIDGE_SEND_FILE_DENY?.split(',').map(s => s.trim()).filter(Boolean) || []),
+];
+
+export type SandboxDenialCode =
+  | 'not_absolute'
+  | 'not_found'
+  | 'not_a_file'
+  | 'global_deny'
+  | 'blocked_path'
+  | 'not_readable'
+  | 'file_type'
+  | 'file_size';
+
+export type SandboxResult =
+  | { ok: true; realPath: string; sizeBytes: number }
+  | { ok: false; code: SandboxDenialCode; reason: string; realPath?: string };
+
+/**
+ * Check a /send-file path: resolve symlinks, then apply the global deny list,
+ * the session's desk manifest, and (in team mode) the channel's file rules
+ */
+export function checkSendFile(
+  filePath: string,
+  scope: { sessionId: string; channelId: string }
+): SandboxResult {
+  if (!isAbsolute(filePath)) {
+    return { ok: false, code: 'not_absolute', reason: 'filePath must be an absolute path' };
+  }
+
+  // Deny-listed paths are refused before touching the filesystem (no existence probing)
+  if (matchesBoundary(filePath, GLOBAL_DENY_LIST, DEFAULT_CWD)) {
+    return globalDenial();
+  }
+
+  let realPath: string;
+  try {
+    realPath = realpathSync(filePath);
+  } catch {
+    return { ok: false, code: 'not_found', reason: `File not found: ${filePath}` };
+  }
+
+  const stats = statSync(realPath);
+  if (!stats.isFile()) {
+    return { ok: false, code: 'not_a_file', reason: 'Only regular files can be sent', realPath };
+  }
+
+  // A symlink can't launder a denied target
+  if (matchesBoundary(realPath, GLOBAL_DENY_LIST, DEFAULT_CWD)) {
+    return globalDenial(realPath);
+  }
+
+  // Check both the requested path and its target against the desk's boundaries
+  const candidates = [...new Set([filePath, realPath])];
+
+  const manifest = loadManifest(scope.sessionId);
+  if (manifest) {
+    if (candidates.some((p) => matchesBoundary(p, manifest.blocked_paths, DEFAULT_CWD))) {
+      return { ok: false, code: 'blocked_path', reason: `Blocked for the ${manifest.desk_slug} desk`, realPath };
+    }
+
+    // Writable paths are readable too; an empty list leaves reads unrestricted
+    const readable = [...manifest.readable_paths, ...manifest.writable_paths];
+    if (readable.length > 0 && !matchesBoundary(realPath, readable, DEFAULT_CWD)) {
+      return { ok: false, code: 'not_readable', reason: `Outside the ${manifest.desk_slug} desk's readable paths`, realPath };
+    }
+  }
+
+  if (isChannelEnabled(scope.channelId)) {
+    const channelConfig = getChannelConfig(scope.channelId);
+    const ext = realPath.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase();
+    if (!ext || !channelConfig.allowedFileTypes.includes(ext)) {
+      return { ok: false, code: 'file_type', reason: `File type ${ext ? `.${ext}` : '(none)'} not allowed in this channel`, realPath };
+    }
+
+    const maxBytes = channelConfig.maxFileSizeMb * 1024 * 1024;
+    if (stats.size > maxBytes) {
+      return { ok: false, code: 'file_size', reason: `File exceeds maximum size of ${channelConfig.maxFileSizeMb}MB`, realPath };
+    }
+  }
+
+  return { ok: true, realPath, sizeBytes: stats.size };
+}
+
+function globalDenial(realPath?: string): SandboxResult {
+  return { ok: false, code: 'global_deny', reason: 'This file is on the bridge deny list (credentials, keys, secrets)', realPath };
+}
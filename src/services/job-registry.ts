@@ -0,0 +1,104 @@
+// Job registry: tracks in-flight Claude runs so they can be cancelled from Slack
+import type { MessageUpdater } from './slack';
+
+export interface RunningJob {
+  key: string;            // "channelId:threadTs"
+  channelId: string;
+  threadTs: string;
+  sessionId: string;
+  userId: string;
+  messageTs: string;      // The user message that started the run
+  processingTs: string;   // The bridge's "Processing..." message
+  startedAt: string;      // ISO8601
+  controller: AbortController;
+  cancelledBy?: string;   // Slack user ID that cancelled the run, "admin" (admin API) or "timeout" (desk consultation)
+  progress?: MessageUpdater; // Writes POST /progress updates to the "Processing..." message
+}
+
+/** action_id of the Stop button on the "Processing..." message */
+export const CANCEL_JOB_ACTION = 'cancel_job';
+
+const jobs: Map<string, RunningJob> = new Map();
+
+/**
+ * Create job key from channel and thread
+ */
+function jobKey(channelId: string, threadTs: string): string {
+  return `${channelId}:${threadTs}`;
+}
+
+/**
+ * Register a new running job for a thread
+ */
+export function registerJob(
+  job: Omit<RunningJob, 'key' | 'startedAt' | 'controller'>
+): RunningJob {
+  const key = jobKey(job.channelId, job.threadTs);
+  const running: RunningJob = {
+    ...job,
+    key,
+    startedAt: new Date().toISOString(),
+    controller: new AbortController(),
+  };
+
+  jobs.set(key, running);
+  console.log(`[Jobs] Registered job ${key} (session ${job.sessionId.slice(0, 8)}...)`);
+  return running;
+}
+
+/**
+ * Remove a job from the registry (run finished)
+ */
+export function unregisterJob(job: RunningJob): void {
+  // Only remove if the registry still points at this run
+  if (jobs.get(job.key) === job) {
+    jobs.delete(job.key);
+  }
+}
+
+/**
+ * Get a running job by its key ("channelId:threadTs")
+ */
+export function getJobByKey(key: string): RunningJob | null {
+  return jobs.get(key) || null;
+}
+
+/**
+ * Get the running job for a thread
+ */
+export function getJob(channelId: string, threadTs: string): RunningJob | null {
+  return jobs.get(jobKey(channelId, threadTs)) || null;
+}
+
+/**
+ * Find a running job by any message that belongs to it
+ * (thread parent, triggering message, or the "Processing..." message)
+ */
+export function findJobByMessage(channelId: string, ts: string): RunningJob | null {
+  for (const job of jobs.values()) {
+    if (job.channelId !== channelId) continue;
+    if (job.threadTs === ts || job.messageTs === ts || job.processingTs === ts) {
+      return job;
+    }
+  }
+  return null;
+}
+
+/**
+ * List all running jobs
+ */
+export function getRunningJobs(): RunningJob[] {
+  return Array.from(jobs.values());
+}
+
+/**
+ * Cancel a running job. Returns false if it was already cancelled.
+ */
+export function cancelJob(job: RunningJob, cancelledBy: string): boolean {
+  if (job.controller.signal.aborted) return false;
+
+  job.cancelledBy = cancelledBy;
+  job.controller.abort();
+  console.log(`[Jobs] Cancelled job ${job.key} (by ${cancelledBy})`);
+  return true;
+}
@@ -0,0 +1,115 @@
+// One-time import of the JSON stores (sessions.json, channels.json, usage.json) into SQLite
+import type { Database } from 'bun:sqlite';
+import { existsSync, readFileSync, renameSync } from 'fs';
+import { join } from 'path';
+import { getStoragePaths } from './storage-paths';
+import type { SessionMapping } from './session';
+import type { ChannelStore } from '../types/config';
+import type { UsageStore } from '../types/usage';
+
+interface LegacyStore {
+  name: string;
+  file: string;
+  importInto: (db: Database, data: any) => number;
+}
+
+// Looked for in the data directory (`bun run migrate-storage` moves them there from older locations)
+const LEGACY_STORES: LegacyStore[] = [
+  { name: 'sessions', file: 'sessions.json', importInto: importSessions },
+  { name: 'channels', file: 'channels.json', importInto: importChannels },
+  { name: 'usage', file: 'usage.json', importInto: importUsage },
+];
+
+/**
+ * Import each legacy JSON file that still exists, then rename it to *.imported.
+ * A store is imported at most once (tracked in the settings table), so a failed rename can't double-count usage.
+ */
+export function importLegacyJsonStores(db: Database): void {
+  const { dataDir } = getStoragePaths();
+
+  for (const store of LEGACY_STORES) {
+    const path = join(dataDir, store.file);
+    if (!existsSync(path)) continue;
+
+    const marker = `legacy_import:${store.name}`;
+    const done = db.query<{ value: string }, [string]>('SELECT value FROM settings WHERE key = ?').get(marker);
+
+    if (done) {
+      console.warn(`[Database] ${path} was already imported on ${done.value}; ignoring it (edit through the admin API instead)`);
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      console.error(`[Database] Could not read ${path}, skipping import:`, error);
+      continue;
+    }
+
+    const count = db.transaction(() => {
+      const imported = store.importInto(db, data);
+      db.query('INSERT INTO settings (key, value) VALUES (?, ?)').run(marker, new Date().toISOString());
+      return imported;
+    })();
+    console.log(`[Database] Imported ${count} ${store.name} row(s) from ${path}`);
+
+    try {
+      renameSync(path, `${path}.imported`);
+    } catch (error) {
+      console.error(`[Database] Could not rename ${path}:`, error);
+    }
+  }
+}
+
+function importSessions(db: Database, data: { sessions?: Record<string, SessionMapping> }): number {
+  const insert = db.query(`
+    INSERT OR IGNORE INTO sessions
+      (channel_id, thread_ts, session_id, user_id, created_at, last_activity, verbose, model, output_style)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  let count = 0;
+  for (const s of Object.values(data.sessions || {})) {
+    const result = insert.run(
+      s.channelId, s.threadTs, s.sessionId, s.userId, s.createdAt, s.lastActivity,
+      s.verbose === undefined ? null : s.verbose ? 1 : 0, s.model ?? null, s.outputStyle ?? null
+    );
+    count += result.changes;
+  }
+  return count;
+}
+
+function importChannels(db: Database, data: Partial<ChannelStore>): number {
+  const now = new Date().toISOString();
+  if (data.defaultConfig) {
+    db.query('INSERT OR IGNORE INTO settings (key, value) VALUES (?, ?)')
+      .run('channel_defaults', JSON.stringify(data.defaultConfig));
+  }
+
+  const insert = db.query('INSERT OR IGNORE INTO channels (channel_id, config, updated_at) VALUES (?, ?, ?)');
+  let count = 0;
+  for (const [channelId, config] of Object.entries(data.channels || {})) {
+    count += insert.run(channelId, JSON.stringify({ ...config, channelId }), now).changes;
+  }
+  return count;
+}
+
+function importUsage(db: Database, data: Partial<UsageStore>): number {
+  const insert = db.query(`
+    INSERT INTO usage_records
+      (timestamp, user_id, channel_id, session_id, category, tokens_used,
+       input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens,
+       cost_usd, model, files_uploaded, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  let count = 0;
+  for (const r of data.records || []) {
+    insert.run(
+      r.timestamp, r.userId, r.channelId, r.sessionId, r.category, r.tokensUsed,
+      r.tokens?.input ?? null, r.tokens?.output ?? null, r.tokens?.cacheCreation ?? null, r.tokens?.cacheRead ?? null,
+      r.costUsd, r.model ?? null, JSON.stringify(r.filesUploaded || []), r.duration
+    );
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,111 @@
+// Model selection: per-thread, per-desk, and per-channel models with a fallback chain
+import { getSession, setSessionModel, type SessionMapping } from './session';
+import type { ClaudeExecutor } from './executor';
+import type { ClaudeOptions } from './claude';
+import { ClaudeRunError } from './claude-errors';
+import type { ChannelConfig } from '../types/config';
+import type { DeskDefinition } from '../types/desk';
+import type { StreamEvent, ResultEvent } from '../types/stream';
+
+const DEFAULT_MODEL = process.env.BRIDGE_DEFAULT_MODEL || 'sonnet';
+const DEFAULT_FALLBACK_MODELS = process.env.BRIDGE_FALLBACK_MODELS?.split(',').map(s => s.trim()).filter(Boolean) || [];
+
+/** Models offered by the thread model picker */
+export const MODEL_CHOICES = ['opus', 'sonnet', 'haiku'];
+
+/** Button value prefix for the model picker */
+export const SET_MODEL_PREFIX = '__SET_MODEL__:';
+
+// Thread overrides chosen before the thread has a session (key: "channelId:threadTs")
+const pendingThreadModels: Map<string, string | null> = new Map();
+
+/**
+ * Set (or clear, with null) the model override for a thread
+ */
+export function setThreadModel(channelId: string, threadTs: string, model: string | null): void {
+  if (getSession(channelId, threadTs)) {
+    setSessionModel(channelId, threadTs, model);
+  } else {
+    pendingThreadModels.set(`${channelId}:${threadTs}`, model);
+  }
+  console.log(`[Models] Thread ${channelId}:${threadTs} model ${model ? `set to ${model}` : 'reset to default'}`);
+}
+
+/**
+ * Apply an override chosen before the session existed (updates the passed session too)
+ */
+export function applyPendingThreadModel(session: SessionMapping): void {
+  const key = `${session.channelId}:${session.threadTs}`;
+  if (!pendingThreadModels.has(key)) return;
+
+  const model = pendingThreadModels.get(key) ?? null;
+  pendingThreadModels.delete(key);
+  setSessionModel(session.channelId, session.threadTs, model);
+  session.model = model || undefined;
+}
+
+/**
+ * Resolve the ordered list of models to try: thread > desk > channel > default,
+ * followed by the fallbacks (desk > channel > BRIDGE_FALLBACK_MODELS)
+ */
+export function resolveModelChain(
+  threadModel: string | undefined,
+  desk: DeskDefinition | null,
+  channelConfig: ChannelConfig
+): string[] {
+  const primary = threadModel || desk?.model || channelConfig.model || DEFAULT_MODEL;
+  const fallbacks = desk?.fallback_models || channelConfig.fallbackModels || DEFAULT_FALLBACK_MODELS;
+  return [...new Set([primary, ...fallbacks])];
+}
+
+/**
+ * Run through the model chain, retrying on the next model when the current one
+ * fails with an overload or rate-limit error before any tool was used
+ */
+export async function* executeWithFallback(
+  executor: ClaudeExecutor,
+  message: string,
+  options: ClaudeOptions,
+  models: string[],
+  onFallback?: (from: string, to: string) => Promise<void>
+): AsyncGenerator<StreamEvent> {
+  let resumeId = options.resumeId;
+  let sessionId = options.sessionId;
+
+  for (let i = 0; i < models.length; i++) {
+    const model = models[i];
+    const hasNext = i < models.length - 1;
+    let usedTools = false;
+    // Error results are held back until we know whether the next model gets a go
+    let failedResult: ResultEvent | null = null;
+
+    try {
+      for await (const event of executor.execute(message, { ...options, model, resumeId, sessionId })) {
+        // Once the session exists, later attempts must resume it instead of recreating it
+        if (event.type === 'system' && event.subtype === 'init' && !resumeId) {
+          resumeId = event.session_id;
+          sessionId = undefined;
+        }
+        if (event.type === 'assistant' && event.message.content.some(b => b.type === 'tool_use')) {
+          usedTools = true;
+        }
+        if (event.type === 'result' && event.is_error) {
+          failedResult = event;
+          continue;
+        }
+        yield event;
+      }
+    } catch (error) {
+      if (!(error instanceof ClaudeRunError && error.isRetryable && hasNext && !usedTools)) {
+        if (failedResult) yield failedResult;
+        throw error;
+      }
+      console.warn(`[Models] ${model} failed (${error.kind}), falling back to ${models[i + 1]}`);
+      await onFallback?.(model, models[i + 1]);
+      continue;
+    }
+
+    if (failedResult) yield failedResult;
+    return;
+  }
+}
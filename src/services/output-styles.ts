@@ -0,0 +1,58 @@
+// Output styles: per-thread, per-desk, and per-channel response formats
+import { getSession, setSessionOutputStyle, type SessionMapping } from './session';
+import { OUTPUT_STYLES, type ChannelConfig, type OutputStyle } from '../types/config';
+import type { DeskDefinition } from '../types/desk';
+
+/** Button value prefix for the style picker */
+export const SET_STYLE_PREFIX = '__SET_STYLE__:';
+
+/**
+ * Check whether a string names a known output style
+ */
+export function isOutputStyle(value: string | undefined): value is OutputStyle {
+  return !!value && (OUTPUT_STYLES as string[]).includes(value);
+}
+
+const envStyle = process.env.BRIDGE_OUTPUT_STYLE;
+const DEFAULT_OUTPUT_STYLE: OutputStyle = isOutputStyle(envStyle) ? envStyle : 'structured';
+
+// Thread overrides chosen before the thread has a session (key: "channelId:threadTs")
+const pendingThreadStyles: Map<string, OutputStyle | null> = new Map();
+
+/**
+ * Set (or clear, with null) the output style override for a thread
+ */
+export function setThreadOutputStyle(channelId: string, threadTs: string, style: OutputStyle | null): void {
+  if (getSession(channelId, threadTs)) {
+    setSessionOutputStyle(channelId, threadTs, style);
+  } else {
+    pendingThreadStyles.set(`${channelId}:${threadTs}`, style);
+  }
+  console.log(`[Styles] Thread ${channelId}:${threadTs} style ${style ? `set to ${style}` : 'reset to default'}`);
+}
+
+/**
+ * Apply an override chosen before the session existed (updates the passed session too)
+ */
+export function applyPendingThreadStyle(session: SessionMapping): void {
+  const key = `${session.channelId}:${session.threadTs}`;
+  if (!pendingThreadStyles.has(key)) return;
+
+  const style = pendingThreadStyles.get(key) ?? null;
+  pendingThreadStyles.delete(key);
+  setSessionOutputStyle(session.channelId, session.threadTs, style);
+  session.outputStyle = style || undefined;
+}
+
+/**
+ * Resolve the style for a run: thread > desk > channel > BRIDGE_OUTPUT_STYLE (default "structured")
+ */
+export function resolveOutputStyle(
+  threadStyle: OutputStyle | undefined,
+  desk: DeskDefinition | null,
+  channelConfig: ChannelConfig
+): OutputStyle {
+  if (threadStyle) return threadStyle;
+  if (isOutputStyle(desk?.output_style)) return desk.output_style;
+  return channelConfig.outputStyle || DEFAULT_OUTPUT_STYLE;
+}
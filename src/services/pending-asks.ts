@@ -0,0 +1,176 @@
+// Pending asks: questions posted by POST /ask that block until someone answers in Slack
+import { randomUUID } from 'crypto';
+import type { SlackBlock } from '../types/slack';
+import type { AskKind, AskResult } from '../types/bridge-api';
+
+export type { AskKind, AskResult };
+
+/** action_id prefix for answer buttons and select menus ("bridge_ask:<askId>") */
+export const ASK_ACTION_PREFIX = 'bridge_ask:';
+
+/** action_id prefix for the "Answer" button that opens the free-text modal */
+export const ASK_OPEN_MODAL_PREFIX = 'bridge_ask_open:';
+
+/** callback_id prefix for the free-text modal */
+export const ASK_MODAL_PREFIX = 'bridge_ask_modal:';
+
+/**
+ * How long an ask waits (seconds). The default stays under the 120s Claude's Bash tool allows a
+ * command unless the model passes a longer `timeout`; the max stays under the 600s Bash ceiling
+ * and the run's default idle watchdog (BRIDGE_IDLE_TIMEOUT_SECONDS).
+ */
+export const ASK_DEFAULT_TIMEOUT_SECONDS = 90;
+export const ASK_MAX_TIMEOUT_SECONDS = 540;
+
+export interface PendingAsk {
+  id: string;
+  sessionId: string;
+  channelId: string;
+  threadTs: string;
+  question: string;
+  kind: AskKind;
+  options: string[];
+  placeholder?: string;
+  createdAt: number;
+  messageTs?: string;
+  resolve: (result: AskResult) => void;
+}
+
+// Asks waiting for an answer (key: ask ID)
+const pendingAsks: Map<string, PendingAsk> = new Map();
+
+/**
+ * Register a question; the returned promise settles when it is answered,
+ * times out, or is cancelled
+ */
+export function createAsk(
+  details: Omit<PendingAsk, 'id' | 'createdAt' | 'resolve'>,
+  timeoutMs: number
+): { ask: PendingAsk; result: Promise<AskResult> } {
+  let resolveResult!: (result: AskResult) => void;
+  const result = new Promise<AskResult>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  const ask: PendingAsk = {
+    ...details,
+    id: randomUUID(),
+    createdAt: Date.now(),
+    resolve: resolveResult,
+  };
+  pendingAsks.set(ask.id, ask);
+
+  const timer = setTimeout(() => settleAsk(ask.id, { answered: false, reason: 'timeout' }), timeoutMs);
+  result.finally(() => clearTimeout(timer));
+
+  return { ask, result };
+}
+
+/**
+ * Get a pending ask by ID
+ */
+export function getAsk(askId: string): PendingAsk | null {
+  return pendingAsks.get(askId) || null;
+}
+
+/**
+ * Settle an ask (first answer wins). Returns the ask, or null if it was already settled.
+ */
+export function settleAsk(askId: string, result: AskResult): PendingAsk | null {
+  const ask = pendingAsks.get(askId);
+  if (!ask) return null;
+
+  pendingAsks.delete(askId);
+  ask.resolve(result);
+  return ask;
+}
+
+/**
+ * Resolve an ask from a button or select value (the option index)
+ */
+export function answerAskWithOption(askId: string, optionIndex: string, userId: string): PendingAsk | null {
+  const ask = pendingAsks.get(askId);
+  const value = ask?.options[parseInt(optionIndex, 10)];
+  if (!ask || value === undefined) return null;
+  return settleAsk(askId, { answered: true, value, userId });
+}
+
+/**
+ * Blocks for the question message
+ */
+export function buildAskBlocks(ask: PendingAsk): SlackBlock[] {
+  const question: SlackBlock = { type: 'section', text: { type: 'mrkdwn', text: `:question: ${ask.question}` } };
+
+  if (ask.kind === 'select') {
+    return [question, {
+      type: 'actions',
+      elements: [{
+        type: 'static_select',
+        action_id: `${ASK_ACTION_PREFIX}${ask.id}`,
+        placeholder: { type: 'plain_text', text: ask.placeholder || 'Choose an option' },
+        options: ask.options.map((option, i) => ({
+          text: { type: 'plain_text', text: option.slice(0, 75) },
+          value: String(i),
+        })),
+      }],
+    }];
+  }
+
+  if (ask.kind === 'text') {
+    return [question, {
+      type: 'actions',
+      elements: [{
+        type: 'button',
+        text: { type: 'plain_text', text: 'Answer', emoji: true },
+        action_id: `${ASK_OPEN_MODAL_PREFIX}${ask.id}`,
+        value: ask.id,
+        style: 'primary',
+      }],
+    }];
+  }
+
+  return [question, {
+    type: 'actions',
+    elements: ask.options.map((option, i) => ({
+      type: 'button' as const,
+      text: { type: 'plain_text' as const, text: option.slice(0, 75), emoji: true },
+      action_id: `${ASK_ACTION_PREFIX}${ask.id}:${i}`,
+      value: String(i),
+    })),
+  }];
+}
+
+/**
+ * Modal view for free-text answers
+ */
+export function buildAskModal(ask: PendingAsk): Record<string, unknown> {
+  return {
+    type: 'modal',
+    callback_id: `${ASK_MODAL_PREFIX}${ask.id}`,
+    title: { type: 'plain_text', text: 'Answer Claude' },
+    submit: { type: 'plain_text', text: 'Send' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: ask.question.slice(0, 3000) } },
+      {
+        type: 'input',
+        block_id: 'answer',
+        label: { type: 'plain_text', text: 'Your answer' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          ...(ask.placeholder ? { placeholder: { type: 'plain_text', text: ask.placeholder } } : {}),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Parse an ask ID out of an action_id or callback_id with the given prefix
+ */
+export function parseAskId(id: string, prefix: string): string | null {
+  if (!id.startsWith(prefix)) return null;
+  return id.slice(prefix.length).split(':')[0] || null;
+}
@@ -0,0 +1,78 @@
+// Slack system prompt built from template files (templates/, overridable via BRIDGE_TEMPLATES_DIR)
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { renderTemplate, type TemplateVars } from '../lib/templates';
+import { ASK_DEFAULT_TIMEOUT_SECONDS, ASK_MAX_TIMEOUT_SECONDS } from './pending-asks';
+import type { OutputStyle } from '../types/config';
+
+const BUILTIN_TEMPLATES_DIR = join(import.meta.dir, '..', '..', 'templates');
+const CUSTOM_TEMPLATES_DIR = process.env.BRIDGE_TEMPLATES_DIR;
+
+/** Bridge API CLI wrapper, referenced from the prompt */
+export const SEND_CLI_PATH = join(import.meta.dir, '..', '..', 'bin', 'slack-bridge-send');
+
+/**
+ * Read a template, preferring BRIDGE_TEMPLATES_DIR over the built-in copy.
+ * Read on every call so edits apply to the next run without a restart.
+ */
+export function loadTemplate(name: string): string {
+  for (const dir of [CUSTOM_TEMPLATES_DIR, BUILTIN_TEMPLATES_DIR]) {
+    if (!dir) continue;
+    const filePath = join(dir, name);
+    if (existsSync(filePath)) {
+      return readFileSync(filePath, 'utf-8');
+    }
+  }
+  console.warn(`[Templates] Template not found: ${name}`);
+  return '';
+}
+
+export interface SlackPromptContext {
+  outputStyle: OutputStyle;
+  sessionId?: string;
+  apiPort: string;
+  apiUrl: string;
+  authHeader: string;
+  userId?: string;
+  channelId?: string;
+  deskSlug?: string;
+  deskContext: string;
+  /** Desks this session may reach through /call-desk */
+  callableDesks?: Array<{ slug: string; name: string; description: string }>;
+  deskCallTimeoutSeconds?: number;
+}
+
+/**
+ * Render the Slack system prompt: style instructions, Bridge API usage, and desk context
+ */
+export function buildSlackSystemPrompt(context: SlackPromptContext): string {
+  const vars: TemplateVars = {
+    output_style: context.outputStyle,
+    session_id: context.sessionId || 'unknown',
+    api_port: context.apiPort,
+    api_url: context.apiUrl,
+    auth_header: context.authHeader,
+    user_id: context.userId || 'unknown',
+    channel_id: context.channelId || 'unknown',
+    desk: context.deskSlug || 'none',
+    desk_context: context.deskContext,
+    send_cli: SEND_CLI_PATH,
+    callable_desks: (context.callableDesks || [])
+      .map((desk) => `- ${desk.slug} (${desk.name}): ${desk.description}`)
+      .join('\n'),
+    desk_call_timeout: context.deskCallTimeoutSeconds,
+    ask_timeout: ASK_DEFAULT_TIMEOUT_SECONDS,
+    ask_max_timeout: ASK_MAX_TIMEOUT_SECONDS,
+  };
+
+  // "raw" adds no formatting instructions at all
+  vars.style_instructions = context.outputStyle === 'raw'
+    ? ''
+    : renderTemplate(loadTemplate(`styles/${context.outputStyle}.md`), vars);
+  vars.bridge_api = renderTemplate(loadTemplate('bridge-api.md'), vars);
+  vars.desk_calls = context.callableDesks?.length
+    ? renderTemplate(loadTemplate('desk-calls.md'), vars)
+    : '';
+
+  return renderTemplate(loadTemplate('slack-system.md'), vars);
+}
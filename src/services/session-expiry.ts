@@ -0,0 +1,127 @@
+// Session expiry: per-desk TTLs (DeskPersistence.ttl_hours), per-desk session limits, and the expired-session prompt
+import { countDeskSessions, getAllSessions, type SessionMapping } from './session';
+import { getDeskBySlug } from './desk-loader';
+import { getJob } from './job-registry';
+import { closeSession, emptyReclaimReport, mergeReclaimReports, releaseSessionArtifacts, type ReclaimReport } from './session-lifecycle';
+import type { DeskDefinition } from '../types/desk';
+import type { SlackBlock } from '../types/slack';
+
+// TTL for sessions without a desk, or whose desk sets none (0 = never expire)
+const DEFAULT_TTL_HOURS = parseInt(process.env.BRIDGE_SESSION_TTL_HOURS || '24', 10);
+
+/** Expired session mappings are kept this long after expiring, so the thread can still resume them */
+const EXPIRED_RETENTION_HOURS = 7 * 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Button value prefix for the expired-session choice (the rest of the value is the choice) */
+export const EXPIRED_SESSION_PREFIX = '__EXPIRED_SESSION__:';
+
+export type ExpiredSessionChoice = 'fresh' | 'resume';
+
+export interface DeskSessionLimit {
+  allowed: boolean;
+  active: number;
+  limit?: number;
+}
+
+/**
+ * TTL for a desk's sessions (hours; 0 = never expire)
+ */
+export function getDeskTtlHours(desk: DeskDefinition | null | undefined): number {
+  return desk?.persistence.ttl_hours ?? DEFAULT_TTL_HOURS;
+}
+
+/**
+ * TTL for a session, from the desk it was created for
+ */
+export function getSessionTtlHours(session: SessionMapping): number {
+  return getDeskTtlHours(session.deskSlug ? getDeskBySlug(session.deskSlug) : null);
+}
+
+/**
+ * When the session expires (null = never)
+ */
+export function getSessionExpiry(session: SessionMapping): Date | null {
+  const ttlHours = getSessionTtlHours(session);
+  if (ttlHours <= 0) return null;
+  return new Date(new Date(session.lastActivity).getTime() + ttlHours * HOUR_MS);
+}
+
+/**
+ * Has the session gone longer than its TTL without activity?
+ */
+export function isSessionExpired(session: SessionMapping, now = Date.now()): boolean {
+  const expiry = getSessionExpiry(session);
+  return expiry !== null && expiry.getTime() < now;
+}
+
+/**
+ * Can another session be started for the desk? (DeskPersistence.max_concurrent counts unexpired sessions)
+ */
+export function checkDeskSessionLimit(desk: DeskDefinition): DeskSessionLimit {
+  const limit = desk.persistence.max_concurrent;
+  if (!limit || limit <= 0) {
+    return { allowed: true, active: 0 };
+  }
+
+  const ttlHours = getDeskTtlHours(desk);
+  const since = ttlHours > 0 ? new Date(Date.now() - ttlHours * HOUR_MS).toISOString() : '';
+  const active = countDeskSessions(desk.slug, since);
+  return { allowed: active < limit, active, limit };
+}
+
+/**
+ * Tear down the files and run tokens of expired sessions, and close sessions that expired
+ * more than EXPIRED_RETENTION_HOURS ago (skipping threads with a running job)
+ */
+export function cleanupExpiredSessions(): ReclaimReport {
+  const now = Date.now();
+  const cutoff = now - EXPIRED_RETENTION_HOURS * HOUR_MS;
+  const report = emptyReclaimReport();
+
+  for (const session of getAllSessions()) {
+    if (!isSessionExpired(session, now) || getJob(session.channelId, session.threadTs)) continue;
+
+    mergeReclaimReports(report, isSessionExpired(session, cutoff)
+      ? closeSession(session, 'expired')
+      : releaseSessionArtifacts(session));
+  }
+
+  return report;
+}
+
+/**
+ * Blocks asking an expired thread whether to start fresh or resume the old session
+ */
+export function buildExpiredSessionBlocks(session: SessionMapping): { text: string; blocks: SlackBlock[] } {
+  const ttlHours = getSessionTtlHours(session);
+  const desk = session.deskSlug ? getDeskBySlug(session.deskSlug) : null;
+  const text = `:hourglass_flowing_sand: This thread's ${desk ? `*${desk.name}* ` : ''}session expired after ${ttlHours}h without activity. `
+    + 'Start a fresh session, or resume the old one anyway?';
+
+  return {
+    text,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: 'Start fresh', emoji: true },
+            action_id: 'expired_session_fresh',
+            value: `${EXPIRED_SESSION_PREFIX}fresh`,
+            style: 'primary',
+          },
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: 'Resume anyway', emoji: true },
+            action_id: 'expired_session_resume',
+            value: `${EXPIRED_SESSION_PREFIX}resume`,
+          },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,169 @@
+// Session lifecycle: tears down every per-session artifact (state, manifest files, downloads, run tokens)
+import { existsSync, readdirSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { deleteSession, getAllSessions, type SessionMapping } from './session';
+import { revokeSessionTokens } from './bridge-tokens';
+import { getRunningJobs } from './job-registry';
+import { getStoragePaths } from './storage-paths';
+
+export type SessionCloseReason = 'expired' | 'fresh' | 'admin';
+
+/** What a teardown or sweep removed */
+export interface ReclaimReport {
+  /** Session mappings deleted */
+  sessions: number;
+  /** Session IDs whose files were removed without a session mapping */
+  orphans: string[];
+  /** Files and directories removed */
+  files: number;
+  /** Disk space freed */
+  bytes: number;
+  tokensRevoked: number;
+}
+
+/**
+ * An empty report to add results into
+ */
+export function emptyReclaimReport(): ReclaimReport {
+  return { sessions: 0, orphans: [], files: 0, bytes: 0, tokensRevoked: 0 };
+}
+
+/**
+ * Close a session: delete its mapping, manifest files (manifest, settings, MCP config),
+ * downloaded attachments and run tokens. The caller makes sure no job is running in the thread.
+ */
+export function closeSession(session: SessionMapping, reason: SessionCloseReason): ReclaimReport {
+  const report = emptyReclaimReport();
+
+  if (deleteSession(session.channelId, session.threadTs)) {
+    report.sessions++;
+  }
+  removeSessionArtifacts(session.sessionId, report);
+  report.tokensRevoked += revokeSessionTokens(session.sessionId);
+
+  console.log(`[Lifecycle] Closed session ${session.sessionId} (${reason}): ${describeReclaimed(report)}`);
+  return report;
+}
+
+/**
+ * Tear down an expired session's manifest files, downloads and run tokens, keeping its mapping
+ * so the thread can still resume the conversation. Returns an empty report when nothing was left.
+ */
+export function releaseSessionArtifacts(session: SessionMapping): ReclaimReport {
+  const report = emptyReclaimReport();
+
+  removeSessionArtifacts(session.sessionId, report);
+  report.tokensRevoked += revokeSessionTokens(session.sessionId);
+
+  if (report.files > 0 || report.tokensRevoked > 0) {
+    console.log(`[Lifecycle] Released expired session ${session.sessionId}: ${describeReclaimed(report)}`);
+  }
+  return report;
+}
+
+/**
+ * Remove manifest files and download directories that belong to no session
+ * (sessions deleted before teardown existed, or bridge session IDs replaced by Claude's).
+ * Sessions with a running job are left alone.
+ */
+export function sweepOrphanedArtifacts(): ReclaimReport {
+  const report = emptyReclaimReport();
+  const live = new Set(getAllSessions().map((s) => s.sessionId));
+  for (const job of getRunningJobs()) live.add(job.sessionId);
+
+  const orphans = new Set([...listArtifactSessionIds()].filter((id) => !live.has(id)));
+  for (const sessionId of orphans) {
+    removeSessionArtifacts(sessionId, report);
+    report.tokensRevoked += revokeSessionTokens(sessionId);
+  }
+  report.orphans = [...orphans];
+
+  if (orphans.size > 0) {
+    console.log(`[Lifecycle] Swept ${orphans.size} orphaned session(s): ${describeReclaimed(report)}`);
+  }
+  return report;
+}
+
+/**
+ * Add one report into another
+ */
+export function mergeReclaimReports(into: ReclaimReport, from: ReclaimReport): ReclaimReport {
+  into.sessions += from.sessions;
+  into.orphans.push(...from.orphans);
+  into.files += from.files;
+  into.bytes += from.bytes;
+  into.tokensRevoked += from.tokensRevoked;
+  return into;
+}
+
+/**
+ * One-line summary for logs
+ */
+export function describeReclaimed(report: ReclaimReport): string {
+  return `${report.files} file(s), ${formatBytes(report.bytes)}, ${report.tokensRevoked} token(s)`;
+}
+
+/**
+ * Session IDs that have files in the manifests or downloads directory
+ */
+function listArtifactSessionIds(): Set<string> {
+  const { manifestsDir, filesDir } = getStoragePaths();
+  const ids = new Set<string>();
+
+  // Manifest files are named "<sessionId>.<suffix>" (yaml, settings.json, mcp.json)
+  for (const name of listDir(manifestsDir)) {
+    const dot = name.indexOf('.');
+    if (dot > 0) ids.add(name.slice(0, dot));
+  }
+  for (const name of listDir(filesDir)) {
+    ids.add(name);
+  }
+  return ids;
+}
+
+/**
+ * Delete a session's manifest files and download directory, counting them into the report
+ */
+function removeSessionArtifacts(sessionId: string, report: ReclaimReport): void {
+  const { manifestsDir, filesDir } = getStoragePaths();
+  const paths = [
+    ...listDir(manifestsDir).filter((name) => name.startsWith(`${sessionId}.`)).map((name) => join(manifestsDir, name)),
+    join(filesDir, sessionId),
+  ];
+
+  for (const path of paths) {
+    if (!existsSync(path)) continue;
+    try {
+      const bytes = diskUsage(path);
+      rmSync(path, { recursive: true, force: true });
+      report.files++;
+      report.bytes += bytes;
+    } catch (error) {
+      console.error(`[Lifecycle] Failed to remove ${path}:`, error);
+    }
+  }
+}
+
+function listDir(dir: string): string[] {
+  try {
+    return existsSync(dir) ? readdirSync(dir) : [];
+  } catch (error) {
+    console.error(`[Lifecycle] Failed to list ${dir}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Total size of a file or directory tree
+ */
+function diskUsage(path: string): number {
+  const stats = statSync(path);
+  if (!stats.isDirectory()) return stats.size;
+  return readdirSync(path).reduce((total, name) => total + diskUsage(join(path, name)), 0);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
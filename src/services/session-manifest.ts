@@ -1,15 +1,25 @@
 // Session manifest generator - creates boundary enforcement manifests
 import { writeFileSync, existsSync, mkdirSync, readFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
+import { getStoragePaths } from './storage-paths';
 import type { DeskDefinition, SessionManifest } from '../types/desk';
 
-const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
-const MANIFESTS_DIR = join(paiDir, 'MEMORY', 'STATE', 'session-manifests');
+/**
+ * Manifests directory (created on first use)
+ */
+function manifestsDir(): string {
+  const { manifestsDir } = getStoragePaths();
+  if (!existsSync(manifestsDir)) {
+    mkdirSync(manifestsDir, { recursive: true });
+  }
+  return manifestsDir;
+}
 
-// Ensure manifests directory exists
-if (!existsSync(MANIFESTS_DIR)) {
-  mkdirSync(MANIFESTS_DIR, { recursive: true });
+/**
+ * Path for a per-session file kept alongside the manifest (e.g. "settings.json")
+ */
+export function getSessionFilePath(sessionId: string, suffix: string): string {
+  return join(manifestsDir(), `${sessionId}.${suffix}`);
 }
 
 /**
@@ -35,7 +45,7 @@ export function generateManifest(
  * Save a session manifest to disk
  */
 export function saveManifest(manifest: SessionManifest): string {
-  const filePath = join(MANIFESTS_DIR, `${manifest.session_id}.yaml`);
+  const filePath = getSessionFilePath(manifest.session_id, 'yaml');
 
   // Format as YAML manually to avoid dependency
   const yaml = `# Auto-generated session manifest
@@ -65,7 +75,7 @@ ${manifest.blocked_paths.map(p => `  - "${p}"`).join('\n') || '  []'}
  * Load a session manifest from disk
  */
 export function loadManifest(sessionId: string): SessionManifest | null {
-  const filePath = join(MANIFESTS_DIR, `${sessionId}.yaml`);
+  const filePath = getSessionFilePath(sessionId, 'yaml');
 
   if (!existsSync(filePath)) {
     return null;
@@ -123,7 +133,7 @@ export function loadManifest(sessionId: string): SessionManifest | null {
  * Delete a session manifest
  */
 export function deleteManifest(sessionId: string): boolean {
-  const filePath = join(MANIFESTS_DIR, `${sessionId}.yaml`);
+  const filePath = getSessionFilePath(sessionId, 'yaml');
 
   if (!existsSync(filePath)) {
     return false;
@@ -139,6 +149,21 @@ export function deleteManifest(sessionId: string): boolean {
   }
 }
 
+/**
+ * Re-write a session's manifest under a new session ID (when Claude Code assigns its own ID).
+ * The old file stays until the running job ends, since its run token still names the old ID.
+ */
+export function copyManifest(fromSessionId: string, toSessionId: string): SessionManifest | null {
+  const manifest = loadManifest(fromSessionId);
+  if (!manifest) {
+    return null;
+  }
+
+  const copied = { ...manifest, session_id: toSessionId };
+  saveManifest(copied);
+  return copied;
+}
+
 /**
  * Create and save a manifest for a desk session
  */
@@ -1,7 +1,7 @@
 // Session manager: maps Slack threads to Claude Code sessions
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname, join } from 'path';
 import { randomUUID } from 'crypto';
+import { getDatabase, transaction } from './database';
+import type { OutputStyle } from '../types/config';
 
 export interface SessionMapping {
   sessionId: string;
@@ -11,121 +11,122 @@ export interface SessionMapping {
   createdAt: string;
   lastActivity: string;
   verbose?: boolean;
+  model?: string;       // Per-thread model override
+  outputStyle?: OutputStyle; // Per-thread output style override
+  deskSlug?: string;    // Desk the session was created for (drives its TTL and session limit)
 }
 
-interface SessionStore {
-  sessions: Record<string, SessionMapping>; // key: "channelId:threadTs"
-}
-
-// Use BRIDGE_DATA_DIR or default to ./data relative to project
-const DATA_DIR = process.env.BRIDGE_DATA_DIR || join(dirname(dirname(Bun.main)), 'data');
-const SESSIONS_PATH = join(DATA_DIR, 'sessions.json');
-
-// Ensure data directory exists
-if (!existsSync(DATA_DIR)) {
-  mkdirSync(DATA_DIR, { recursive: true });
+interface SessionRow {
+  channel_id: string;
+  thread_ts: string;
+  session_id: string;
+  user_id: string;
+  created_at: string;
+  last_activity: string;
+  verbose: number | null;
+  model: string | null;
+  output_style: string | null;
+  desk_slug: string | null;
 }
 
 /**
- * Load sessions from disk
+ * Map a sessions row to a SessionMapping (unset overrides are left off, as before)
  */
-function loadSessions(): SessionStore {
-  try {
-    if (existsSync(SESSIONS_PATH)) {
-      const data = readFileSync(SESSIONS_PATH, 'utf-8');
-      return JSON.parse(data);
-    }
-  } catch (error) {
-    console.error('Error loading sessions:', error);
-  }
-  return { sessions: {} };
-}
-
-/**
- * Save sessions to disk
- */
-function saveSessions(store: SessionStore): void {
-  try {
-    writeFileSync(SESSIONS_PATH, JSON.stringify(store, null, 2));
-  } catch (error) {
-    console.error('Error saving sessions:', error);
-  }
+function toSession(row: SessionRow): SessionMapping {
+  const session: SessionMapping = {
+    sessionId: row.session_id,
+    channelId: row.channel_id,
+    threadTs: row.thread_ts,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    lastActivity: row.last_activity,
+  };
+  if (row.verbose !== null) session.verbose = row.verbose === 1;
+  if (row.model) session.model = row.model;
+  if (row.output_style) session.outputStyle = row.output_style as OutputStyle;
+  if (row.desk_slug) session.deskSlug = row.desk_slug;
+  return session;
 }
 
 /**
- * Create session key from channel and thread
+ * Set one column of a thread's session; false when the thread has none
  */
-function sessionKey(channelId: string, threadTs: string): string {
-  return `${channelId}:${threadTs}`;
+function updateSessionColumn(
+  channelId: string,
+  threadTs: string,
+  column: 'last_activity' | 'session_id' | 'verbose' | 'model' | 'output_style',
+  value: string | number | null
+): boolean {
+  const result = getDatabase()
+    .query(`UPDATE sessions SET ${column} = ? WHERE channel_id = ? AND thread_ts = ?`)
+    .run(value, channelId, threadTs);
+  return result.changes > 0;
 }
 
 /**
- * Get or create a session for a Slack thread
+ * Get or create a session for a Slack thread (deskSlug is recorded for new sessions only)
  */
 export function getOrCreateSession(
   channelId: string,
   threadTs: string,
-  userId: string
+  userId: string,
+  deskSlug?: string
 ): { session: SessionMapping; isNew: boolean } {
-  const store = loadSessions();
-  const key = sessionKey(channelId, threadTs);
-
-  if (store.sessions[key]) {
-    // Update last activity
-    store.sessions[key].lastActivity = new Date().toISOString();
-    saveSessions(store);
-    return { session: store.sessions[key], isNew: false };
-  }
-
-  // Create new session
-  const session: SessionMapping = {
-    sessionId: randomUUID(),
-    channelId,
-    threadTs,
-    userId,
-    createdAt: new Date().toISOString(),
-    lastActivity: new Date().toISOString(),
-  };
-
-  store.sessions[key] = session;
-  saveSessions(store);
+  return transaction(() => {
+    const now = new Date().toISOString();
+    const existing = getSession(channelId, threadTs);
+
+    if (existing) {
+      // Update last activity
+      updateSessionColumn(channelId, threadTs, 'last_activity', now);
+      return { session: { ...existing, lastActivity: now }, isNew: false };
+    }
 
-  return { session, isNew: true };
+    // Create new session
+    const session: SessionMapping = {
+      sessionId: randomUUID(),
+      channelId,
+      threadTs,
+      userId,
+      createdAt: now,
+      lastActivity: now,
+      ...(deskSlug ? { deskSlug } : {}),
+    };
+
+    getDatabase()
+      .query(`INSERT INTO sessions (channel_id, thread_ts, session_id, user_id, created_at, last_activity, desk_slug)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .run(channelId, threadTs, session.sessionId, userId, now, now, deskSlug ?? null);
+
+    return { session, isNew: true };
+  });
 }
 
 /**
  * Get session by thread
  */
 export function getSession(channelId: string, threadTs: string): SessionMapping | null {
-  const store = loadSessions();
-  const key = sessionKey(channelId, threadTs);
-  return store.sessions[key] || null;
+  const row = getDatabase()
+    .query<SessionRow, [string, string]>('SELECT * FROM sessions WHERE channel_id = ? AND thread_ts = ?')
+    .get(channelId, threadTs);
+  return row ? toSession(row) : null;
 }
 
 /**
  * Update session's last activity
  */
 export function updateSessionActivity(channelId: string, threadTs: string): void {
-  const store = loadSessions();
-  const key = sessionKey(channelId, threadTs);
-
-  if (store.sessions[key]) {
-    store.sessions[key].lastActivity = new Date().toISOString();
-    saveSessions(store);
-  }
+  updateSessionColumn(channelId, threadTs, 'last_activity', new Date().toISOString());
 }
 
 /**
  * Look up a session by its sessionId (for bridge API)
  */
 export function getSessionBySessionId(sessionId: string): SessionMapping | null {
-  const store = loadSessions();
-  for (const session of Object.values(store.sessions)) {
-    if (session.sessionId === sessionId) {
-      return session;
-    }
-  }
-  return null;
+  const row = getDatabase()
+    .query<SessionRow, [string]>('SELECT * FROM sessions WHERE session_id = ? LIMIT 1')
+    .get(sessionId);
+  return row ? toSession(row) : null;
 }
 
 /**
@@ -133,17 +134,11 @@ export function getSessionBySessionId(sessionId: string): SessionMapping | null
  * Called when Claude Code returns a different session_id than what we generated
  */
 export function updateSessionId(channelId: string, threadTs: string, realSessionId: string): boolean {
-  const store = loadSessions();
-  const key = sessionKey(channelId, threadTs);
-
-  if (store.sessions[key]) {
-    const oldId = store.sessions[key].sessionId;
-    if (oldId !== realSessionId) {
-      console.log(`[Session] Reconciling session ID: ${oldId} -> ${realSessionId}`);
-      store.sessions[key].sessionId = realSessionId;
-      saveSessions(store);
-      return true;
-    }
+  const session = getSession(channelId, threadTs);
+
+  if (session && session.sessionId !== realSessionId) {
+    console.log(`[Session] Reconciling session ID: ${session.sessionId} -> ${realSessionId}`);
+    return updateSessionColumn(channelId, threadTs, 'session_id', realSessionId);
   }
   return false;
 }
@@ -152,38 +147,47 @@ export function updateSessionId(channelId: string, threadTs: string, realSession
  * Set verbose flag for a session
  */
 export function setSessionVerbose(channelId: string, threadTs: string, verbose: boolean): boolean {
-  const store = loadSessions();
-  const key = sessionKey(channelId, threadTs);
+  return updateSessionColumn(channelId, threadTs, 'verbose', verbose ? 1 : 0);
+}
 
-  if (store.sessions[key]) {
-    store.sessions[key].verbose = verbose;
-    saveSessions(store);
-    return true;
-  }
-  return false;
+/**
+ * Set (or clear, with null) the model override for a session
+ */
+export function setSessionModel(channelId: string, threadTs: string, model: string | null): boolean {
+  return updateSessionColumn(channelId, threadTs, 'model', model || null);
 }
 
 /**
- * Clean up old sessions (older than 24 hours of inactivity)
+ * Set (or clear, with null) the output style override for a session
  */
-export function cleanupOldSessions(maxAgeHours = 24): number {
-  const store = loadSessions();
-  const cutoff = Date.now() - (maxAgeHours * 60 * 60 * 1000);
-  let removed = 0;
-
-  for (const key of Object.keys(store.sessions)) {
-    const session = store.sessions[key];
-    const lastActivity = new Date(session.lastActivity).getTime();
-
-    if (lastActivity < cutoff) {
-      delete store.sessions[key];
-      removed++;
-    }
-  }
+export function setSessionOutputStyle(channelId: string, threadTs: string, style: OutputStyle | null): boolean {
+  return updateSessionColumn(channelId, threadTs, 'output_style', style || null);
+}
 
-  if (removed > 0) {
-    saveSessions(store);
-  }
+/**
+ * Count a desk's sessions active since `since` (ISO timestamp)
+ */
+export function countDeskSessions(deskSlug: string, since: string): number {
+  return getDatabase()
+    .query<{ count: number }, [string, string]>('SELECT COUNT(*) AS count FROM sessions WHERE desk_slug = ? AND last_activity >= ?')
+    .get(deskSlug, since)!.count;
+}
 
-  return removed;
+/**
+ * List all sessions (for the admin API)
+ */
+export function getAllSessions(): SessionMapping[] {
+  return getDatabase()
+    .query<SessionRow, []>('SELECT * FROM sessions ORDER BY last_activity DESC')
+    .all()
+    .map(toSession);
+}
+
+/**
+ * Delete a session mapping; the thread starts a new Claude session on its next message
+ */
+export function deleteSession(channelId: string, threadTs: string): boolean {
+  return getDatabase()
+    .query('DELETE FROM sessions WHERE channel_id = ? AND thread_ts = ?')
+    .run(channelId, threadTs).changes > 0;
 }
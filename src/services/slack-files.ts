@@ -1,12 +1,16 @@
-// Download Slack file attachments to local temp directory for Claude processing
+// Download Slack file attachments into the bridge data directory for Claude processing
 import { mkdirSync, existsSync, unlinkSync, rmSync } from 'fs';
 import { extname, join } from 'path';
 import type { SlackFile } from '../types/slack';
 import { SUPPORTED_INBOUND_EXTENSIONS, MAX_INBOUND_FILE_SIZE } from '../types/slack';
+import { getStoragePaths } from './storage-paths';
 
-import { tmpdir } from 'os';
-
-const TEMP_BASE = join(tmpdir(), 'slack-bridge-files');
+/**
+ * Directory for a session's downloaded files
+ */
+export function getSessionFilesDir(sessionId: string): string {
+  return join(getStoragePaths().filesDir, sessionId);
+}
 
 /**
  * Get the download URL for a Slack file.
@@ -103,7 +107,7 @@ export async function downloadMessageFiles(
   sessionId: string,
   botToken: string
 ): Promise<{ paths: string[]; warnings: string[] }> {
-  const destDir = join(TEMP_BASE, sessionId);
+  const destDir = getSessionFilesDir(sessionId);
   const paths: string[] = [];
   const warnings: string[] = [];
 
@@ -140,7 +144,7 @@ export function buildFilePrefix(paths: string[], warnings: string[]): string {
  * Clean up temp files for a session
  */
 export function cleanupSessionFiles(sessionId: string): void {
-  const dir = join(TEMP_BASE, sessionId);
+  const dir = getSessionFilesDir(sessionId);
   try {
     if (existsSync(dir)) {
       rmSync(dir, { recursive: true, force: true });
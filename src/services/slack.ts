@@ -1,6 +1,7 @@
 // Slack API wrapper: post messages, update them, add reactions
 import { WebClient } from '@slack/web-api';
 import { markdownToSlack, truncateForSlack, stripSystemReminders } from '../lib/markdown-to-slack';
+import type { SlackBlock } from '../types/slack';
 
 let client: WebClient | null = null;
 
@@ -18,6 +19,13 @@ export function getSlackClient(): WebClient {
   return client;
 }
 
+/**
+ * Replace the Slack client (e.g. with a stub for offline runs); null resets to the real client
+ */
+export function setSlackClient(stub: WebClient | null): void {
+  client = stub;
+}
+
 /**
  * Post a new message to a channel/thread
  */
@@ -25,7 +33,8 @@ export async function postMessage(
   channel: string,
   text: string,
   threadTs?: string,
-  raw = false
+  raw = false,
+  blocks?: SlackBlock[]
 ): Promise<{ ts: string; channel: string }> {
   const client = getSlackClient();
 
@@ -35,6 +44,7 @@ export async function postMessage(
     channel,
     text: processedText,
     thread_ts: threadTs,
+    blocks: blocks as any,
   });
 
   if (!result.ts || !result.channel) {
@@ -46,12 +56,14 @@ export async function postMessage(
 
 /**
  * Update an existing message
+ * Pass blocks to replace the message's blocks (an empty array removes them)
  */
 export async function updateMessage(
   channel: string,
   ts: string,
   text: string,
-  raw = false
+  raw = false,
+  blocks?: SlackBlock[]
 ): Promise<void> {
   const client = getSlackClient();
   let processedText = raw ? text : truncateForSlack(markdownToSlack(stripSystemReminders(text)));
@@ -61,6 +73,7 @@ export async function updateMessage(
       channel,
       ts,
       text: processedText,
+      blocks: blocks as any,
     });
   } catch (error: unknown) {
     // Handle msg_too_long by aggressive truncation
@@ -74,6 +87,7 @@ export async function updateMessage(
           channel,
           ts,
           text: processedText,
+          blocks: blocks as any,
         });
         return;
       }
@@ -134,6 +148,24 @@ export async function removeReaction(
   }
 }
 
+/**
+ * Check whether a message is the parent of, or a reply in, the given thread
+ */
+export async function isMessageInThread(channel: string, threadTs: string, ts: string): Promise<boolean> {
+  if (ts === threadTs) return true;
+
+  const client = getSlackClient();
+  const result = await client.conversations.replies({
+    channel,
+    ts: threadTs,
+    oldest: ts,
+    latest: ts,
+    inclusive: true,
+    limit: 2,
+  });
+  return result.messages?.some((m) => m.ts === ts) ?? false;
+}
+
 /**
  * Tool name to emoji mapping
  */
@@ -164,11 +196,13 @@ export class MessageUpdater {
   private lastUpdateTime = 0;
   private updateTimer: ReturnType<typeof setTimeout> | null = null;
   private minInterval: number;
+  private closed = false;
 
   constructor(
     private channel: string,
     private ts: string,
-    minIntervalMs = 500
+    minIntervalMs = 500,
+    private buildBlocks?: (text: string) => SlackBlock[]
   ) {
     this.minInterval = minIntervalMs;
   }
@@ -178,18 +212,15 @@ export class MessageUpdater {
    */
   async append(text: string): Promise<void> {
     this.pendingText += text;
+    await this.schedule();
+  }
 
-    const now = Date.now();
-    const timeSinceLastUpdate = now - this.lastUpdateTime;
-
-    if (timeSinceLastUpdate >= this.minInterval) {
-      await this.flush();
-    } else if (!this.updateTimer) {
-      this.updateTimer = setTimeout(async () => {
-        await this.flush();
-        this.updateTimer = null;
-      }, this.minInterval - timeSinceLastUpdate);
-    }
+  /**
+   * Replace the text and schedule update
+   */
+  async update(text: string): Promise<void> {
+    this.pendingText = text;
+    await this.schedule();
   }
 
   /**
@@ -206,14 +237,31 @@ export class MessageUpdater {
     return this.pendingText;
   }
 
+  /**
+   * Flush now if the interval has passed, otherwise once it has
+   */
+  private async schedule(): Promise<void> {
+    const now = Date.now();
+    const timeSinceLastUpdate = now - this.lastUpdateTime;
+
+    if (timeSinceLastUpdate >= this.minInterval) {
+      await this.flush();
+    } else if (!this.updateTimer) {
+      this.updateTimer = setTimeout(async () => {
+        await this.flush();
+        this.updateTimer = null;
+      }, this.minInterval - timeSinceLastUpdate);
+    }
+  }
+
   /**
    * Flush pending updates to Slack
    */
   async flush(): Promise<void> {
-    if (!this.pendingText) return;
+    if (!this.pendingText || this.closed) return;
 
     try {
-      await updateMessage(this.channel, this.ts, this.pendingText);
+      await updateMessage(this.channel, this.ts, this.pendingText, false, this.buildBlocks?.(this.pendingText));
       this.lastUpdateTime = Date.now();
     } catch (error) {
       console.error('[Slack] Update failed:', error);
@@ -221,9 +269,10 @@ export class MessageUpdater {
   }
 
   /**
-   * Clear any pending timer
+   * Clear any pending timer and stop further updates (the message is being finalized)
    */
   cleanup(): void {
+    this.closed = true;
     if (this.updateTimer) {
       clearTimeout(this.updateTimer);
       this.updateTimer = null;
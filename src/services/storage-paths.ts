@@ -0,0 +1,164 @@
+// Storage layout: every file the bridge writes lives under one data directory
+import { accessSync, constants, cpSync, existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { homedir, tmpdir } from 'os';
+
+export interface StoragePaths {
+  /** Root for everything below ($BRIDGE_DATA_DIR, default $PAI_DIR/bridge/data) */
+  dataDir: string;
+  /** SQLite database ($BRIDGE_DB_PATH, default <dataDir>/bridge.db) */
+  dbPath: string;
+  /** Append-only audit log of Bridge API decisions */
+  auditLogPath: string;
+  /** Per-session desk manifests and the settings/MCP files generated next to them */
+  manifestsDir: string;
+  /** Slack attachments downloaded for runs, one directory per session */
+  filesDir: string;
+}
+
+export interface LegacyLocation {
+  what: string;
+  from: string;
+  to: string;
+}
+
+export interface MigrationStep extends LegacyLocation {
+  action: 'moved' | 'would move' | 'skipped';
+  reason?: string;
+}
+
+let overrides: Partial<StoragePaths> = {};
+let resolved: StoragePaths | null = null;
+
+/**
+ * Resolved storage paths. Resolved on first use (not at import), so a .env loaded at startup applies.
+ */
+export function getStoragePaths(): StoragePaths {
+  if (!resolved) {
+    const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
+    const dataDir = resolve(overrides.dataDir || process.env.BRIDGE_DATA_DIR || join(paiDir, 'bridge', 'data'));
+    resolved = {
+      dataDir,
+      dbPath: resolve(overrides.dbPath || process.env.BRIDGE_DB_PATH || join(dataDir, 'bridge.db')),
+      auditLogPath: overrides.auditLogPath || join(dataDir, 'audit.jsonl'),
+      manifestsDir: overrides.manifestsDir || join(dataDir, 'session-manifests'),
+      filesDir: overrides.filesDir || join(dataDir, 'files'),
+    };
+  }
+  return resolved;
+}
+
+/**
+ * Repoint storage (e.g. at a temp directory in tests). Paths not given are derived from dataDir as usual.
+ */
+export function configureStorage(paths: Partial<StoragePaths>): StoragePaths {
+  overrides = { ...paths };
+  resolved = null;
+  return getStoragePaths();
+}
+
+/**
+ * Create the storage directories and check they are writable. Returns the problems found (empty = ok).
+ */
+export function validateStorage(): string[] {
+  const paths = getStoragePaths();
+  const dirs = new Set([paths.dataDir, dirname(paths.dbPath), dirname(paths.auditLogPath), paths.manifestsDir, paths.filesDir]);
+  const problems: string[] = [];
+
+  for (const dir of dirs) {
+    try {
+      mkdirSync(dir, { recursive: true });
+      accessSync(dir, constants.W_OK);
+    } catch (error) {
+      problems.push(`${dir} is not a writable directory (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Data left in the locations used before the unified layout (only entries that exist and would move)
+ */
+export function getLegacyLocations(): LegacyLocation[] {
+  const paths = getStoragePaths();
+  const paiDir = process.env.PAI_DIR || join(homedir(), '.claude');
+  const projectDataDir = resolve(import.meta.dir, '..', '..', 'data');
+  const paiDataDir = join(paiDir, 'bridge', 'data');
+
+  const candidates: LegacyLocation[] = [
+    ...['sessions.json', 'sessions.json.imported'].map((name) => ({
+      what: 'sessions', from: join(projectDataDir, name), to: join(paths.dataDir, name),
+    })),
+    ...['channels.json', 'channels.json.imported', 'usage.json', 'usage.json.imported', 'audit.jsonl'].map((name) => ({
+      what: name.split('.')[0], from: join(paiDataDir, name), to: name === 'audit.jsonl' ? paths.auditLogPath : join(paths.dataDir, name),
+    })),
+    ...['', '-wal', '-shm'].map((suffix) => ({
+      what: 'database', from: join(paiDataDir, `bridge.db${suffix}`), to: `${paths.dbPath}${suffix}`,
+    })),
+    { what: 'session manifests', from: join(paiDir, 'MEMORY', 'STATE', 'session-manifests'), to: paths.manifestsDir },
+    { what: 'inbound files', from: join(tmpdir(), 'slack-bridge-files'), to: paths.filesDir },
+  ];
+
+  return candidates.filter((c) => resolve(c.from) !== resolve(c.to) && existsSync(c.from));
+}
+
+/**
+ * Move legacy data into the unified layout. Run with the bridge stopped.
+ * Nothing is overwritten: a file whose destination exists is skipped; directories are merged entry by entry.
+ */
+export function migrateLegacyStorage(options: { dryRun?: boolean } = {}): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+
+  for (const location of getLegacyLocations()) {
+    if (statSync(location.from).isDirectory()) {
+      steps.push(...moveDirectory(location, options.dryRun ?? false));
+    } else {
+      steps.push(moveEntry(location, options.dryRun ?? false));
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Merge a directory into its destination, then remove it if everything moved
+ */
+function moveDirectory(location: LegacyLocation, dryRun: boolean): MigrationStep[] {
+  const steps = readdirSync(location.from).map((name) => moveEntry({
+    what: location.what,
+    from: join(location.from, name),
+    to: join(location.to, name),
+  }, dryRun));
+
+  if (!dryRun && steps.every((step) => step.action === 'moved')) {
+    rmSync(location.from, { recursive: true, force: true });
+  }
+  return steps;
+}
+
+/**
+ * Move one file or directory (copy + delete when crossing filesystems)
+ */
+function moveEntry(location: LegacyLocation, dryRun: boolean): MigrationStep {
+  if (existsSync(location.to)) {
+    return { ...location, action: 'skipped', reason: 'destination already exists' };
+  }
+  if (dryRun) {
+    return { ...location, action: 'would move' };
+  }
+
+  try {
+    mkdirSync(dirname(location.to), { recursive: true });
+    try {
+      renameSync(location.from, location.to);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      cpSync(location.from, location.to, { recursive: true });
+      rmSync(location.from, { recursive: true, force: true });
+    }
+    return { ...location, action: 'moved' };
+  } catch (error) {
+    return { ...location, action: 'skipped', reason: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,135 @@
+// Thread history: normalized Slack thread messages for Claude (GET /thread-history)
+import { getSlackClient } from './slack';
+import { downloadSlackFile, getSessionFilesDir } from './slack-files';
+import type { SlackFile, ThreadHistoryFile, ThreadHistoryMessage, ThreadHistoryPage } from '../types/slack';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// How long a resolved display name is reused
+const USER_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Display names by user ID
+const userNames: Map<string, { name: string; fetchedAt: number }> = new Map();
+
+/**
+ * Resolve a user's display name (display name > real name > username > ID)
+ */
+async function getDisplayName(userId: string): Promise<string> {
+  const cached = userNames.get(userId);
+  if (cached && Date.now() - cached.fetchedAt < USER_CACHE_TTL_MS) {
+    return cached.name;
+  }
+
+  let name = userId;
+  try {
+    const result = await getSlackClient().users.info({ user: userId });
+    const user = result.user;
+    name = user?.profile?.display_name || user?.real_name || user?.name || userId;
+  } catch (error) {
+    console.warn(`[ThreadHistory] Could not look up user ${userId}:`, error);
+  }
+
+  userNames.set(userId, { name, fetchedAt: Date.now() });
+  return name;
+}
+
+/**
+ * Convert a Slack ts ("1712345678.000100") to ISO8601
+ */
+function tsToIso(ts: string): string {
+  return new Date(parseFloat(ts) * 1000).toISOString();
+}
+
+/**
+ * Fetch one page of a thread, oldest first
+ */
+export async function fetchThreadHistory(
+  channelId: string,
+  threadTs: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<ThreadHistoryPage> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const result = await getSlackClient().conversations.replies({
+    channel: channelId,
+    ts: threadTs,
+    cursor: options.cursor,
+    limit,
+  });
+
+  const messages: ThreadHistoryMessage[] = [];
+  for (const message of result.messages || []) {
+    if (!message.ts) continue;
+
+    const isBot = !!message.bot_id;
+    const author = message.user && !isBot
+      ? await getDisplayName(message.user)
+      : message.bot_profile?.name || 'bot';
+
+    messages.push({
+      ts: message.ts,
+      postedAt: tsToIso(message.ts),
+      userId: message.user,
+      author,
+      isBot,
+      text: message.text || '',
+      editedAt: message.edited?.ts ? tsToIso(message.edited.ts) : undefined,
+      files: (message.files || []).map((file): ThreadHistoryFile => ({
+        id: file.id || '',
+        name: file.name || 'file',
+        mimetype: file.mimetype || '',
+        size: file.size || 0,
+        filetype: file.filetype,
+      })),
+      reactions: (message.reactions || []).map((reaction) => ({
+        name: reaction.name || '',
+        count: reaction.count || 0,
+      })),
+    });
+  }
+
+  const nextCursor = result.has_more ? result.response_metadata?.next_cursor || undefined : undefined;
+  return { messages, nextCursor };
+}
+
+/**
+ * Find a file shared in the thread (pages through the whole thread)
+ */
+async function findThreadFile(channelId: string, threadTs: string, fileId: string): Promise<SlackFile | null> {
+  let cursor: string | undefined;
+  do {
+    const result = await getSlackClient().conversations.replies({
+      channel: channelId,
+      ts: threadTs,
+      cursor,
+      limit: MAX_PAGE_SIZE,
+    });
+    for (const message of result.messages || []) {
+      const file = message.files?.find((f) => f.id === fileId);
+      if (file) return file as SlackFile;
+    }
+    cursor = result.has_more ? result.response_metadata?.next_cursor || undefined : undefined;
+  } while (cursor);
+
+  return null;
+}
+
+/**
+ * Download a file shared earlier in the thread into the session's temp directory
+ */
+export async function downloadThreadFile(
+  scope: { sessionId: string; channelId: string; threadTs: string },
+  fileId: string,
+  botToken: string
+): Promise<{ path: string } | { error: string; status: number }> {
+  const file = await findThreadFile(scope.channelId, scope.threadTs, fileId);
+  if (!file) {
+    return { error: `File ${fileId} is not in this thread`, status: 404 };
+  }
+
+  const result = await downloadSlackFile(file, getSessionFilesDir(scope.sessionId), botToken);
+  if ('path' in result) {
+    return { path: result.path };
+  }
+  return { error: `${file.name}: ${result.reason}`, status: 422 };
+}
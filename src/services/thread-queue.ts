@@ -0,0 +1,97 @@
+// Thread work queue: serializes work within a Slack thread so runs never overlap
+
+interface QueueEntry<T> {
+  item: T;
+  run(item: T): Promise<void>;
+  waiters: Array<() => void>;
+}
+
+interface ThreadQueue<T> {
+  running: boolean;
+  waiting: QueueEntry<T>[];
+}
+
+export interface EnqueueOptions<T> {
+  /** Fold a new item into the last waiting item instead of queueing it separately */
+  merge?: (queued: T, incoming: T) => T;
+  /** Called when the item has to wait; position 1 is the run in progress */
+  onQueued?: (position: number) => Promise<void>;
+  /** Called when the item was merged into a waiting item */
+  onMerged?: (position: number) => Promise<void>;
+}
+
+const queues: Map<string, ThreadQueue<unknown>> = new Map();
+
+/**
+ * Start the next waiting entry for a thread, if idle
+ */
+function pump(key: string): void {
+  const queue = queues.get(key);
+  if (!queue || queue.running) return;
+
+  const entry = queue.waiting.shift();
+  if (!entry) {
+    queues.delete(key);
+    return;
+  }
+
+  queue.running = true;
+  entry.run(entry.item)
+    .catch((error) => {
+      console.error(`[ThreadQueue] Work failed for ${key}:`, error);
+    })
+    .finally(() => {
+      queue.running = false;
+      for (const done of entry.waiters) done();
+      pump(key);
+    });
+}
+
+/**
+ * Queue work for a thread. Resolves when the item (or the merged item
+ * it was folded into) has finished running.
+ */
+export async function enqueueThreadWork<T>(
+  key: string,
+  item: T,
+  run: (item: T) => Promise<void>,
+  options: EnqueueOptions<T> = {}
+): Promise<void> {
+  let queue = queues.get(key) as ThreadQueue<T> | undefined;
+  if (!queue) {
+    queue = { running: false, waiting: [] };
+    queues.set(key, queue);
+  }
+
+  const busy = queue.running || queue.waiting.length > 0;
+  const last = queue.waiting[queue.waiting.length - 1];
+
+  let finished: Promise<void>;
+  if (busy && last && options.merge) {
+    last.item = options.merge(last.item, item);
+    finished = new Promise((resolve) => last.waiters.push(resolve));
+    const position = queue.waiting.length + (queue.running ? 1 : 0);
+    console.log(`[ThreadQueue] Merged message into queued item for ${key} (position ${position})`);
+    await options.onMerged?.(position);
+  } else {
+    const entry: QueueEntry<T> = { item, run, waiters: [] };
+    finished = new Promise((resolve) => entry.waiters.push(resolve));
+    queue.waiting.push(entry);
+
+    if (busy) {
+      const position = queue.waiting.length + (queue.running ? 1 : 0);
+      console.log(`[ThreadQueue] Queued message for ${key} (position ${position})`);
+      await options.onQueued?.(position);
+    }
+  }
+
+  pump(key);
+  return finished;
+}
+
+/**
+ * Number of items waiting (not running) for a thread
+ */
+export function getQueueLength(key: string): number {
+  return queues.get(key)?.waiting.length || 0;
+}
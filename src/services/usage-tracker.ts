@@ -1,99 +1,77 @@
 // Usage tracking service - rate limiting and cost control
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-import type { UsageRecord, UsageStore, ChannelUsage } from '../types/usage';
-import { EMPTY_USAGE_STORE } from '../types/usage';
+import { getDatabase } from './database';
+import type { UsageRecord, ChannelUsage } from '../types/usage';
 import type { ChannelConfig } from '../types/config';
 
-const PAI_DIR = process.env.PAI_DIR || join(homedir(), '.claude');
-const DATA_DIR = join(PAI_DIR, 'bridge', 'data');
-const USAGE_PATH = join(DATA_DIR, 'usage.json');
-
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
+/** Records older than this are pruned */
+const RETENTION_DAYS = 30;
+
+/** Aggregate columns shared by the summary queries */
+const USAGE_TOTALS = `
+  COUNT(*) AS requests,
+  COALESCE(SUM(tokens_used), 0) AS tokens,
+  COALESCE(SUM(cost_usd), 0) AS costUsd,
+  COUNT(input_tokens) AS withBreakdown,
+  COALESCE(SUM(input_tokens), 0) AS input,
+  COALESCE(SUM(output_tokens), 0) AS output,
+  COALESCE(SUM(cache_creation_tokens), 0) AS cacheCreation,
+  COALESCE(SUM(cache_read_tokens), 0) AS cacheRead
+`;
+
+interface UsageTotalsRow {
+  requests: number;
+  tokens: number;
+  costUsd: number;
+  withBreakdown: number;
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
 }
 
-function loadUsage(): UsageStore {
-  try {
-    if (existsSync(USAGE_PATH)) {
-      return JSON.parse(readFileSync(USAGE_PATH, 'utf-8'));
-    }
-  } catch (error) {
-    console.error('[UsageTracker] Error loading usage data:', error);
+/**
+ * Map a USAGE_TOTALS row to ChannelUsage (tokenBreakdown only when some record had one, as before)
+ */
+function toChannelUsage(row: UsageTotalsRow): ChannelUsage {
+  const usage: ChannelUsage = { requests: row.requests, tokens: row.tokens, costUsd: row.costUsd };
+  if (row.withBreakdown > 0) {
+    usage.tokenBreakdown = { input: row.input, output: row.output, cacheCreation: row.cacheCreation, cacheRead: row.cacheRead };
   }
-  return { ...EMPTY_USAGE_STORE };
+  return usage;
 }
 
-function saveUsage(store: UsageStore): void {
-  ensureDataDir();
-  writeFileSync(USAGE_PATH, JSON.stringify(store, null, 2));
+/**
+ * UTC date (YYYY-MM-DD) `daysAgo` days before today; summaries are bucketed by record timestamp date
+ */
+function utcDate(daysAgo: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  return date.toISOString().split('T')[0];
 }
 
 /**
  * Record a usage event
  */
 export function recordUsage(record: UsageRecord): void {
-  const store = loadUsage();
-
-  // Add to records
-  store.records.push(record);
-
-  // Update daily summary
-  const date = record.timestamp.split('T')[0];
-  if (!store.dailySummaries[date]) {
-    store.dailySummaries[date] = { date, byUser: {}, byChannel: {} };
-  }
-
-  const daily = store.dailySummaries[date];
-
-  // Update user stats
-  if (!daily.byUser[record.userId]) {
-    daily.byUser[record.userId] = { requests: 0, tokens: 0, costUsd: 0 };
-  }
-  daily.byUser[record.userId].requests++;
-  daily.byUser[record.userId].tokens += record.tokensUsed;
-  daily.byUser[record.userId].costUsd += record.costUsd;
-
-  // Update channel stats
-  if (!daily.byChannel[record.channelId]) {
-    daily.byChannel[record.channelId] = { requests: 0, tokens: 0, costUsd: 0 };
-  }
-  daily.byChannel[record.channelId].requests++;
-  daily.byChannel[record.channelId].tokens += record.tokensUsed;
-  daily.byChannel[record.channelId].costUsd += record.costUsd;
-
-  // Update hourly bucket
-  const hour = record.timestamp.slice(0, 13); // YYYY-MM-DDTHH
-  const bucketKey = `${record.channelId}:${hour}`;
-  store.hourlyBuckets[bucketKey] = (store.hourlyBuckets[bucketKey] || 0) + 1;
+  const db = getDatabase();
+  const { tokens } = record;
+
+  db.query(`
+    INSERT INTO usage_records
+      (timestamp, user_id, channel_id, session_id, category, tokens_used,
+       input_tokens, output_tokens, cache_creation_tokens, cache_read_tokens,
+       cost_usd, model, files_uploaded, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    record.timestamp, record.userId, record.channelId, record.sessionId, record.category, record.tokensUsed,
+    tokens?.input ?? null, tokens?.output ?? null, tokens?.cacheCreation ?? null, tokens?.cacheRead ?? null,
+    record.costUsd, record.model ?? null, JSON.stringify(record.filesUploaded), record.duration
+  );
 
   // Prune old records (keep 30 days)
   const cutoff = new Date();
-  cutoff.setDate(cutoff.getDate() - 30);
-  store.records = store.records.filter((r) => new Date(r.timestamp) > cutoff);
-
-  // Prune old daily summaries
-  const oldDates = Object.keys(store.dailySummaries).filter(
-    (d) => new Date(d) < cutoff
-  );
-  for (const d of oldDates) {
-    delete store.dailySummaries[d];
-  }
-
-  // Prune old hourly buckets
-  const cutoffHour = cutoff.toISOString().slice(0, 13);
-  const oldBuckets = Object.keys(store.hourlyBuckets).filter((k) => {
-    const bucketHour = k.split(':').slice(1).join(':');
-    return bucketHour < cutoffHour;
-  });
-  for (const k of oldBuckets) {
-    delete store.hourlyBuckets[k];
-  }
-
-  saveUsage(store);
+  cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+  db.query('DELETE FROM usage_records WHERE timestamp < ?').run(cutoff.toISOString());
 }
 
 /**
@@ -108,14 +86,15 @@ export function checkRateLimits(
   reason?: string;
   remaining?: { hourly: number; daily: number };
 } {
-  const store = loadUsage();
+  const db = getDatabase();
   const now = new Date();
   const today = now.toISOString().split('T')[0];
   const currentHour = now.toISOString().slice(0, 13);
 
-  // Check hourly limit
-  const hourlyKey = `${channelId}:${currentHour}`;
-  const hourlyCount = store.hourlyBuckets[hourlyKey] || 0;
+  // Check hourly limit (ISO timestamps sort lexically, so ">= YYYY-MM-DDTHH" is "this hour")
+  const hourlyCount = db
+    .query<{ count: number }, [string, string]>('SELECT COUNT(*) AS count FROM usage_records WHERE channel_id = ? AND timestamp >= ?')
+    .get(channelId, currentHour)!.count;
   if (hourlyCount >= config.rateLimits.requestsPerHour) {
     return {
       allowed: false,
@@ -124,8 +103,10 @@ export function checkRateLimits(
   }
 
   // Check daily limit
-  const daily = store.dailySummaries[today];
-  const dailyChannelCount = daily?.byChannel[channelId]?.requests || 0;
+  const daily = db
+    .query<UsageTotalsRow, [string, string]>(`SELECT ${USAGE_TOTALS} FROM usage_records WHERE channel_id = ? AND timestamp >= ?`)
+    .get(channelId, today)!;
+  const dailyChannelCount = daily.requests;
   if (dailyChannelCount >= config.rateLimits.requestsPerDay) {
     return {
       allowed: false,
@@ -134,7 +115,7 @@ export function checkRateLimits(
   }
 
   // Check daily token limit
-  const dailyTokens = daily?.byChannel[channelId]?.tokens || 0;
+  const dailyTokens = daily.tokens;
   if (dailyTokens >= config.rateLimits.tokensPerDay) {
     return {
       allowed: false,
@@ -143,7 +124,7 @@ export function checkRateLimits(
   }
 
   // Check daily cost limit
-  const dailyCost = daily?.byChannel[channelId]?.costUsd || 0;
+  const dailyCost = daily.costUsd;
   if (dailyCost >= config.maxCostPerDay) {
     return {
       allowed: false,
@@ -160,6 +141,25 @@ export function checkRateLimits(
   };
 }
 
+/**
+ * Per-day totals for one channel or user over the last `days` days, newest first
+ */
+function dailyTotals(
+  column: 'channel_id' | 'user_id',
+  id: string,
+  days: number
+): (UsageTotalsRow & { date: string })[] {
+  return getDatabase()
+    .query<UsageTotalsRow & { date: string }, [string, string]>(`
+      SELECT substr(timestamp, 1, 10) AS date, ${USAGE_TOTALS}
+      FROM usage_records
+      WHERE ${column} = ? AND timestamp >= ?
+      GROUP BY date
+      ORDER BY date DESC
+    `)
+    .all(id, utcDate(days - 1));
+}
+
 /**
  * Get usage summary for a channel
  */
@@ -172,7 +172,6 @@ export function getChannelUsageSummary(
   totalCost: number;
   byDay: { date: string; requests: number; cost: number }[];
 } {
-  const store = loadUsage();
   const result = {
     totalRequests: 0,
     totalTokens: 0,
@@ -180,25 +179,11 @@ export function getChannelUsageSummary(
     byDay: [] as { date: string; requests: number; cost: number }[],
   };
 
-  const now = new Date();
-  for (let i = 0; i < days; i++) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
-
-    const daily = store.dailySummaries[dateStr];
-    const channelData = daily?.byChannel[channelId];
-
-    if (channelData) {
-      result.totalRequests += channelData.requests;
-      result.totalTokens += channelData.tokens;
-      result.totalCost += channelData.costUsd;
-      result.byDay.push({
-        date: dateStr,
-        requests: channelData.requests,
-        cost: channelData.costUsd,
-      });
-    }
+  for (const day of dailyTotals('channel_id', channelId, days)) {
+    result.totalRequests += day.requests;
+    result.totalTokens += day.tokens;
+    result.totalCost += day.costUsd;
+    result.byDay.push({ date: day.date, requests: day.requests, cost: day.costUsd });
   }
 
   return result;
@@ -215,32 +200,41 @@ export function getUserUsageSummary(
   totalCost: number;
   byDay: { date: string; requests: number; cost: number }[];
 } {
-  const store = loadUsage();
   const result = {
     totalRequests: 0,
     totalCost: 0,
     byDay: [] as { date: string; requests: number; cost: number }[],
   };
 
-  const now = new Date();
-  for (let i = 0; i < days; i++) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
-
-    const daily = store.dailySummaries[dateStr];
-    const userData = daily?.byUser[userId];
-
-    if (userData) {
-      result.totalRequests += userData.requests;
-      result.totalCost += userData.costUsd;
-      result.byDay.push({
-        date: dateStr,
-        requests: userData.requests,
-        cost: userData.costUsd,
-      });
-    }
+  for (const day of dailyTotals('user_id', userId, days)) {
+    result.totalRequests += day.requests;
+    result.totalCost += day.costUsd;
+    result.byDay.push({ date: day.date, requests: day.requests, cost: day.costUsd });
   }
 
   return result;
 }
+
+/**
+ * Usage totals per channel and per user over the last `days` days
+ */
+export function getUsageTotals(days = 7): {
+  days: number;
+  byChannel: Record<string, ChannelUsage>;
+  byUser: Record<string, ChannelUsage>;
+} {
+  const since = utcDate(days - 1);
+  const totalsBy = (column: 'channel_id' | 'user_id'): Record<string, ChannelUsage> => {
+    const rows = getDatabase()
+      .query<UsageTotalsRow & { id: string }, [string]>(`
+        SELECT ${column} AS id, ${USAGE_TOTALS}
+        FROM usage_records
+        WHERE timestamp >= ?
+        GROUP BY ${column}
+      `)
+      .all(since);
+    return Object.fromEntries(rows.map((row) => [row.id, toChannelUsage(row)]));
+  };
+
+  return { days, byChannel: totalsBy('channel_id'), byUser: totalsBy('user_id') };
+}
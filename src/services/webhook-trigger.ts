@@ -0,0 +1,216 @@
+// Webhook triggers: signed POST /trigger requests from CI, alerting or cron start a Claude run in Slack
+import { randomUUID } from 'crypto';
+import { getDeskBySlug } from './desk-loader';
+import { getSlackClient, postMessage } from './slack';
+import { recordAudit } from './audit-log';
+import {
+  isValidTriggerSignature,
+  TRIGGER_SIGNATURE_HEADER,
+  TRIGGER_SOURCE_HEADER,
+  TRIGGER_TIMESTAMP_HEADER,
+} from '../lib/trigger-signature';
+import type { TriggerRequest, TriggerResponse } from '../types/bridge-api';
+
+/** Signed requests older (or newer) than this are refused, so captured requests can't be replayed later */
+const MAX_CLOCK_SKEW_SECONDS = 300;
+
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Longest prompt shown in the seed message (Claude gets the full text)
+const MAX_SEED_PROMPT_LENGTH = 2500;
+
+export interface TriggerSource {
+  name: string;
+  secret: string;
+  runsPerHour: number;
+}
+
+export type TriggerAuth =
+  | { ok: true; source: TriggerSource }
+  | { ok: false; status: number; error: string };
+
+export interface TriggerResult {
+  status: number;
+  response: TriggerResponse | { ok: false; error: string };
+}
+
+// Parsed from BRIDGE_TRIGGER_SOURCES on first use, so values from .env apply
+let sources: Map<string, TriggerSource> | null = null;
+
+// Accepted runs per source in the last hour (key: source name)
+const recentRuns: Map<string, number[]> = new Map();
+
+// Signatures already accepted, until they fall outside the clock-skew window (key: signature)
+const seenSignatures: Map<string, number> = new Map();
+
+/**
+ * Sources allowed to trigger runs, from BRIDGE_TRIGGER_SOURCES ("name:secret[:runsPerHour]", comma-separated)
+ */
+function getSources(): Map<string, TriggerSource> {
+  if (!sources) {
+    sources = parseSources(process.env.BRIDGE_TRIGGER_SOURCES || '');
+  }
+  return sources;
+}
+
+/**
+ * Channels triggers may post to, from BRIDGE_ALLOWED_CHANNELS (empty = any)
+ */
+function getAllowedChannels(): string[] {
+  return process.env.BRIDGE_ALLOWED_CHANNELS?.split(',').map(s => s.trim()).filter(Boolean) || [];
+}
+
+/**
+ * Parse BRIDGE_TRIGGER_SOURCES ("ci:s3cret:60,alerts:0ther")
+ */
+function parseSources(spec: string): Map<string, TriggerSource> {
+  const defaultRateLimit = parseInt(process.env.BRIDGE_TRIGGER_RATE_LIMIT || '20', 10);
+  const parsed = new Map<string, TriggerSource>();
+  for (const entry of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const [name, secret, limit] = entry.split(':');
+    if (!name || !secret) {
+      console.warn(`[Trigger] Ignoring malformed BRIDGE_TRIGGER_SOURCES entry for "${name || '?'}" (expected name:secret[:runsPerHour])`);
+      continue;
+    }
+    const runsPerHour = limit ? parseInt(limit, 10) : defaultRateLimit;
+    parsed.set(name, { name, secret, runsPerHour: Number.isNaN(runsPerHour) ? defaultRateLimit : runsPerHour });
+  }
+  return parsed;
+}
+
+/**
+ * Names of the configured trigger sources (empty = POST /trigger disabled)
+ */
+export function getTriggerSources(): string[] {
+  return Array.from(getSources().keys());
+}
+
+/**
+ * Verify a request's source, timestamp and signature against its raw body
+ */
+export function verifyTrigger(headers: Headers, rawBody: string): TriggerAuth {
+  const name = headers.get(TRIGGER_SOURCE_HEADER) || '';
+  const timestamp = headers.get(TRIGGER_TIMESTAMP_HEADER) || '';
+  const signature = headers.get(TRIGGER_SIGNATURE_HEADER) || '';
+
+  if (!name || !timestamp || !signature) {
+    return { ok: false, status: 401, error: `Missing ${TRIGGER_SOURCE_HEADER}, ${TRIGGER_TIMESTAMP_HEADER} or ${TRIGGER_SIGNATURE_HEADER} header` };
+  }
+
+  const source = getSources().get(name);
+  const skew = Math.abs(Date.now() / 1000 - Number(timestamp));
+  const denied = !source
+    ? 'Unknown source'
+    : !/^\d+$/.test(timestamp) || skew > MAX_CLOCK_SKEW_SECONDS
+      ? `Timestamp outside the ${MAX_CLOCK_SKEW_SECONDS}s window`
+      : !isValidTriggerSignature(source.secret, timestamp, rawBody, signature)
+        ? 'Invalid signature'
+        : seenSignatures.has(signature)
+          ? 'Replayed request'
+          : null;
+
+  if (denied) {
+    recordAudit({ event: 'trigger', outcome: 'denied', source: name, reason: denied });
+    console.warn(`[Trigger] Refused request from "${name}": ${denied}`);
+    return { ok: false, status: 401, error: `Unauthorized: ${denied}` };
+  }
+
+  sweepSeenSignatures();
+  seenSignatures.set(signature, Date.now() + MAX_CLOCK_SKEW_SECONDS * 1000);
+  return { ok: true, source: source! };
+}
+
+/**
+ * Count a run against the source's hourly limit. Returns seconds to wait when over it, or null.
+ */
+export function takeTriggerQuota(source: TriggerSource): number | null {
+  const now = Date.now();
+  const runs = (recentRuns.get(source.name) || []).filter(t => t > now - RATE_WINDOW_MS);
+
+  if (runs.length >= source.runsPerHour) {
+    recentRuns.set(source.name, runs);
+    return Math.max(1, Math.ceil((runs[0] + RATE_WINDOW_MS - now) / 1000));
+  }
+
+  runs.push(now);
+  recentRuns.set(source.name, runs);
+  return null;
+}
+
+/**
+ * Post a seed message and run the prompt through the normal message pipeline
+ * (which creates the thread's session with getOrCreateSession). Returns once the run has started.
+ */
+export async function startTrigger(source: TriggerSource, request: TriggerRequest): Promise<TriggerResult> {
+  const { channel, prompt, threadTs } = request;
+  const triggerId = randomUUID().slice(0, 8);
+  const audit = { event: 'trigger', source: source.name, triggerId, channelId: channel, threadTs, desk: request.desk };
+
+  const allowedChannels = getAllowedChannels();
+  if (allowedChannels.length > 0 && !allowedChannels.includes(channel)) {
+    recordAudit({ ...audit, outcome: 'denied', reason: 'channel not allowed' });
+    return { status: 403, response: { ok: false, error: `Channel ${channel} is not in BRIDGE_ALLOWED_CHANNELS` } };
+  }
+
+  const desk = request.desk ? getDeskBySlug(request.desk) : null;
+  if (request.desk && !desk) {
+    return { status: 404, response: { ok: false, error: `Unknown desk: ${request.desk}` } };
+  }
+
+  if (threadTs && !await threadExists(channel, threadTs)) {
+    return { status: 404, response: { ok: false, error: `Thread ${threadTs} not found in ${channel}` } };
+  }
+
+  const shown = prompt.length > MAX_SEED_PROMPT_LENGTH
+    ? `${prompt.slice(0, MAX_SEED_PROMPT_LENGTH)}\n_... (truncated)_`
+    : prompt;
+  const seed = await postMessage(
+    channel,
+    `:zap: Triggered by *${source.name}*${desk ? ` for *${desk.name}*` : ''}:\n${shown}`,
+    threadTs,
+    true
+  );
+  const rootTs = threadTs || seed.ts;
+
+  recordAudit({ ...audit, threadTs: rootTs, outcome: 'allowed' });
+  console.log(`[Trigger] ${triggerId} from ${source.name} -> ${channel}:${rootTs}${desk ? ` (desk ${desk.slug})` : ''}`);
+
+  // The bridge ignores its own messages, so the run is started with a synthetic message
+  const { handleMessage } = await import('../handlers/message');
+  handleMessage({
+    type: 'message',
+    text: prompt,
+    user: `trigger:${source.name}`,
+    channel,
+    ts: seed.ts,
+    thread_ts: rootTs,
+    deskSlug: desk?.slug,
+  }).catch((error) => console.error(`[Trigger] ${triggerId} run failed:`, error));
+
+  return {
+    status: 202,
+    response: { ok: true, triggerId, channel, threadTs: rootTs, messageTs: seed.ts },
+  };
+}
+
+/**
+ * Check a thread's parent message exists
+ */
+async function threadExists(channel: string, threadTs: string): Promise<boolean> {
+  try {
+    const result = await getSlackClient().conversations.replies({ channel, ts: threadTs, limit: 1 });
+    return result.messages?.[0]?.ts === threadTs;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Forget signatures whose timestamps can no longer pass the clock-skew check
+ */
+function sweepSeenSignatures(): void {
+  const now = Date.now();
+  for (const [signature, expiresAt] of seenSignatures) {
+    if (expiresAt < now) seenSignatures.delete(signature);
+  }
+}
@@ -0,0 +1,245 @@
+// Worker pool: caps concurrent Claude processes globally, per channel, and per desk
+// Waiting runs are served round-robin across channels so one busy channel can't starve the rest
+
+// Global limit, read on first use (not at import) so BRIDGE_MAX_CONCURRENT from .env applies
+let maxConcurrent: number | null = null;
+
+export interface WorkerRequest {
+  channelId: string;
+  deskSlug?: string;
+  /** Per-channel limit (ChannelConfig.maxConcurrent) */
+  channelLimit?: number;
+  /** Per-desk limit (DeskPersistence.max_concurrent) */
+  deskLimit?: number;
+  /** Abort waiting for a slot (e.g. the run was cancelled) */
+  signal?: AbortSignal;
+  /** Called when the run has to wait, with the number of runs queued ahead of it */
+  onWaiting?: (ahead: number) => Promise<void>;
+  /** Identifies the run's slot for yieldWorkerWhile (the job key, "channelId:threadTs") */
+  key?: string;
+}
+
+interface Waiter {
+  request: WorkerRequest;
+  grant: () => void;
+}
+
+/**
+ * A granted slot. `held` is false while the run has lent it out (yieldWorkerWhile).
+ */
+interface WorkerSlot {
+  request: WorkerRequest;
+  held: boolean;
+  released: boolean;
+}
+
+/**
+ * Global limit on concurrent Claude processes (BRIDGE_MAX_CONCURRENT, default 3)
+ */
+function getMaxConcurrent(): number {
+  if (maxConcurrent === null) {
+    maxConcurrent = parseInt(process.env.BRIDGE_MAX_CONCURRENT || '3', 10);
+  }
+  return maxConcurrent;
+}
+
+let activeTotal = 0;
+const activeByChannel: Map<string, number> = new Map();
+const activeByDesk: Map<string, number> = new Map();
+
+// Slots of running runs that gave a key (key: WorkerRequest.key)
+const slotsByKey: Map<string, WorkerSlot> = new Map();
+
+// Per-channel FIFO queues, plus the channel order used for round-robin dispatch
+const waitersByChannel: Map<string, Waiter[]> = new Map();
+let channelOrder: string[] = [];
+let nextChannelIndex = 0;
+
+/**
+ * Check whether a request fits within the global, channel, and desk limits
+ */
+function hasCapacity(request: WorkerRequest): boolean {
+  if (activeTotal >= getMaxConcurrent()) return false;
+  if (request.channelLimit && (activeByChannel.get(request.channelId) || 0) >= request.channelLimit) {
+    return false;
+  }
+  if (request.deskSlug && request.deskLimit && (activeByDesk.get(request.deskSlug) || 0) >= request.deskLimit) {
+    return false;
+  }
+  return true;
+}
+
+function occupy(request: WorkerRequest): void {
+  activeTotal++;
+  activeByChannel.set(request.channelId, (activeByChannel.get(request.channelId) || 0) + 1);
+  if (request.deskSlug) {
+    activeByDesk.set(request.deskSlug, (activeByDesk.get(request.deskSlug) || 0) + 1);
+  }
+}
+
+function vacate(request: WorkerRequest): void {
+  activeTotal--;
+  activeByChannel.set(request.channelId, (activeByChannel.get(request.channelId) || 1) - 1);
+  if (request.deskSlug) {
+    activeByDesk.set(request.deskSlug, (activeByDesk.get(request.deskSlug) || 1) - 1);
+  }
+}
+
+function removeWaiter(waiter: Waiter): void {
+  const queue = waitersByChannel.get(waiter.request.channelId);
+  if (!queue) return;
+
+  const index = queue.indexOf(waiter);
+  if (index >= 0) queue.splice(index, 1);
+  if (queue.length === 0) {
+    waitersByChannel.delete(waiter.request.channelId);
+    channelOrder = channelOrder.filter(c => c !== waiter.request.channelId);
+  }
+}
+
+/**
+ * Hand free slots to waiting runs, one channel at a time in rotation
+ */
+function dispatch(): void {
+  let granted = true;
+
+  while (granted && channelOrder.length > 0 && activeTotal < getMaxConcurrent()) {
+    granted = false;
+
+    for (let i = 0; i < channelOrder.length; i++) {
+      const index = (nextChannelIndex + i) % channelOrder.length;
+      const channelId = channelOrder[index];
+      const queue = waitersByChannel.get(channelId) || [];
+
+      // Take the first waiter in this channel whose desk limit allows it to run
+      const waiter = queue.find(w => hasCapacity(w.request));
+      if (!waiter) continue;
+
+      removeWaiter(waiter);
+      occupy(waiter.request);
+      waiter.grant();
+
+      // Resume rotation after the channel that was just served
+      // (if its queue emptied, the next channel has shifted into its index)
+      const stillWaiting = channelOrder.includes(channelId);
+      nextChannelIndex = channelOrder.length > 0
+        ? (stillWaiting ? index + 1 : index) % channelOrder.length
+        : 0;
+      granted = true;
+      break;
+    }
+  }
+}
+
+/**
+ * Wait for a worker slot. Resolves with a release function that must be
+ * called when the run finishes. If the signal aborts while waiting, resolves
+ * with a no-op release without taking a slot.
+ */
+export async function acquireWorker(request: WorkerRequest): Promise<() => void> {
+  if (!await occupyWhenFree(request)) {
+    return () => {};
+  }
+
+  const slot: WorkerSlot = { request, held: true, released: false };
+  if (request.key) slotsByKey.set(request.key, slot);
+
+  return () => {
+    if (slot.released) return;
+    slot.released = true;
+    if (request.key && slotsByKey.get(request.key) === slot) slotsByKey.delete(request.key);
+    if (slot.held) {
+      slot.held = false;
+      vacate(request);
+      dispatch();
+    }
+  };
+}
+
+/**
+ * Lend a running run's slot to other runs while it waits on `wait` (e.g. a desk it consults,
+ * which needs a slot of its own), then take a slot back before returning.
+ * Without this, chained consultations could hold every slot and wait on each other.
+ */
+export async function yieldWorkerWhile<T>(key: string, wait: () => Promise<T>): Promise<T> {
+  const slot = slotsByKey.get(key);
+  if (!slot || !slot.held) return wait();
+
+  slot.held = false;
+  vacate(slot.request);
+  dispatch();
+  console.log(`[WorkerPool] Run ${key} lent its worker while waiting`);
+
+  try {
+    return await wait();
+  } finally {
+    // The run may have ended (or been cancelled) meanwhile; then there is nothing to take back
+    if (!slot.released && await occupyWhenFree({ ...slot.request, onWaiting: undefined })) {
+      if (slot.released) {
+        vacate(slot.request);
+        dispatch();
+      } else {
+        slot.held = true;
+      }
+    }
+  }
+}
+
+/**
+ * Take a slot as soon as the limits allow. Resolves false (without a slot) if the signal aborts first.
+ */
+function occupyWhenFree(request: WorkerRequest): Promise<boolean> {
+  // Fast path: nobody waiting and capacity available
+  if (waitersByChannel.size === 0 && hasCapacity(request)) {
+    occupy(request);
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const waiter: Waiter = {
+      request,
+      grant: () => {
+        request.signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      },
+    };
+
+    const onAbort = () => {
+      removeWaiter(waiter);
+      console.log(`[WorkerPool] Run in ${request.channelId} cancelled while waiting`);
+      resolve(false);
+    };
+
+    if (request.signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const queue = waitersByChannel.get(request.channelId);
+    if (queue) {
+      queue.push(waiter);
+    } else {
+      waitersByChannel.set(request.channelId, [waiter]);
+      channelOrder.push(request.channelId);
+    }
+
+    const ahead = getPoolStatus().waiting - 1;
+    console.log(`[WorkerPool] Run in ${request.channelId} waiting for a worker (${ahead} ahead, ${activeTotal}/${getMaxConcurrent()} busy)`);
+    request.onWaiting?.(ahead).catch(() => {});
+
+    // A slot may have freed up between the capacity check and now
+    dispatch();
+  });
+}
+
+/**
+ * Current pool usage
+ */
+export function getPoolStatus(): { active: number; waiting: number; max: number } {
+  let waiting = 0;
+  for (const queue of waitersByChannel.values()) {
+    waiting += queue.length;
+  }
+  return { active: activeTotal, waiting, max: getMaxConcurrent() };
+}
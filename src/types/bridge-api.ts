@@ -0,0 +1,189 @@
+// Bridge API request and response types (shared by the server, the client, and the CLI)
+import type { SlackBlock, ThreadHistoryPage } from './slack';
+import type { ChannelConfig } from './config';
+
+/**
+ * Fields every session endpoint accepts: sessionId is optional and must match the run token
+ */
+export interface SessionRequest {
+  sessionId?: string;
+}
+
+export interface SendFileRequest extends SessionRequest {
+  /** Absolute path of the file to upload */
+  filePath: string;
+  comment?: string;
+}
+
+export interface SendMessageRequest extends SessionRequest {
+  text?: string;
+  blocks?: SlackBlock[];
+}
+
+export interface UpdateMessageRequest extends SessionRequest {
+  /** A message this session posted with /send-message */
+  ts: string;
+  text?: string;
+  blocks?: SlackBlock[];
+}
+
+export interface ReactRequest extends SessionRequest {
+  emoji: string;
+  /** Defaults to the message that started the run */
+  ts?: string;
+  remove?: boolean;
+}
+
+export interface ProgressRequest extends SessionRequest {
+  percent?: number;
+  status?: string;
+}
+
+export interface ThreadHistoryQuery extends SessionRequest {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface DownloadFileRequest extends SessionRequest {
+  fileId: string;
+}
+
+export type AskKind = 'buttons' | 'select' | 'text';
+
+export type AskResult =
+  | { answered: true; value: string; userId: string }
+  | { answered: false; reason: 'timeout' | 'cancelled' };
+
+export interface AskRequest extends SessionRequest {
+  question: string;
+  /** Defaults to buttons when options are given, otherwise text */
+  type?: AskKind;
+  options?: string[];
+  placeholder?: string;
+  timeoutSeconds?: number;
+}
+
+/**
+ * POST /trigger body (signed with the source's secret; see src/lib/trigger-signature.ts)
+ */
+export interface TriggerRequest {
+  /** Channel ID to post in */
+  channel: string;
+  prompt: string;
+  /** Desk slug to run, regardless of @mentions */
+  desk?: string;
+  /** Continue an existing thread instead of starting one */
+  threadTs?: string;
+}
+
+export interface OkResponse {
+  ok: true;
+}
+
+export interface SendFileResponse extends OkResponse {
+  /** Slack file ID of the upload */
+  fileId?: string;
+  permalink?: string;
+}
+
+export interface MessageResponse extends OkResponse {
+  ts: string;
+}
+
+export interface ProgressResponse extends OkResponse {
+  percent?: number;
+  status?: string;
+}
+
+export type ThreadHistoryResponse = OkResponse & ThreadHistoryPage;
+
+export interface DownloadFileResponse extends OkResponse {
+  /** Local path of the downloaded file */
+  path: string;
+}
+
+export type AskResponse = OkResponse & AskResult;
+
+export interface TriggerResponse extends OkResponse {
+  triggerId: string;
+  channel: string;
+  /** Thread the run (and any follow-ups) happen in */
+  threadTs: string;
+  /** The seed message */
+  messageTs: string;
+}
+
+export interface HealthResponse {
+  status: 'ok';
+  version: string;
+}
+
+/**
+ * Error body returned with any non-2xx status
+ */
+export interface ErrorResponse {
+  error: string;
+  /** Validation problems, for 400 responses */
+  details?: string[];
+  /** Machine-readable reason, where the endpoint has one (e.g. send-file sandbox codes) */
+  code?: string;
+}
+
+// --- Admin endpoints (BRIDGE_API_SECRET) ---
+
+export interface AdminSessionsQuery {
+  channelId?: string;
+}
+
+export interface AdminSessionParams {
+  sessionId: string;
+}
+
+export interface AdminChannelParams {
+  channelId: string;
+}
+
+/** Fields to change; omitted fields keep their current value */
+export type AdminChannelUpdate = Partial<ChannelConfig> & AdminChannelParams;
+
+export interface AdminUsageQuery {
+  /** Summary for one channel, or */
+  channelId?: string;
+  /** for one user; neither = totals per channel and per user */
+  userId?: string;
+  /** Default 7 */
+  days?: number;
+}
+
+export interface AdminCancelJobRequest {
+  /** Job key ("channelId:threadTs") from GET /admin/jobs */
+  key: string;
+}
+
+/**
+ * A running Claude job, as listed by the admin API
+ */
+export interface AdminJob {
+  key: string;
+  channelId: string;
+  threadTs: string;
+  sessionId: string;
+  userId: string;
+  startedAt: string;
+  cancelled: boolean;
+}
+
+/**
+ * A loaded desk, as listed by the admin API (no MCP config: it may hold secrets)
+ */
+export interface AdminDesk {
+  slug: string;
+  name: string;
+  description: string;
+  mentions: string[];
+  channel: string | null;
+  model?: string;
+  outputStyle?: string;
+  /** Handles messages with no desk mention */
+  isDefault: boolean;
+}
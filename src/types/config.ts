@@ -13,6 +13,11 @@ export interface RateLimits {
   tokensPerDay: number;
 }
 
+/** Response formats for the Slack system prompt (templates/styles/<style>.md) */
+export type OutputStyle = 'structured' | 'concise' | 'report' | 'raw';
+
+export const OUTPUT_STYLES: OutputStyle[] = ['structured', 'concise', 'report', 'raw'];
+
 export interface ChannelConfig {
   channelId: string;
   channelName: string;
@@ -39,8 +44,24 @@ export interface ChannelConfig {
 
   // Claude CLI flags
   verbose?: boolean;
+  model?: string;            // Default model for this channel
+  fallbackModels?: string[]; // Tried in order when the model is overloaded or rate-limited
+
+  // Max concurrent Claude processes for this channel (global limit: BRIDGE_MAX_CONCURRENT)
+  maxConcurrent?: number;
+
+  // Execution limits (seconds) — a desk's own limits take precedence
+  timeoutSeconds?: number;
+  idleTimeoutSeconds?: number;
+
+  // Thread queueing: fold rapid follow-ups that are still waiting into one prompt
+  mergeQueuedMessages?: boolean;
+
+  // Response format (a desk's or thread's style takes precedence)
+  outputStyle?: OutputStyle;
 }
 
+/** Legacy channels.json format (imported into SQLite by legacy-import) */
 export interface ChannelStore {
   channels: Record<string, ChannelConfig>;
   defaultConfig: Partial<ChannelConfig>;
@@ -60,4 +81,5 @@ export const DEFAULT_CHANNEL_CONFIG: Partial<ChannelConfig> = {
   allowedFileTypes: [],
   maxFileSizeMb: 5,
   verbose: true,
+  mergeQueuedMessages: false,
 };
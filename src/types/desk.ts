@@ -32,6 +32,8 @@ export interface DeskBoundaries {
   readable?: string[];
   /** Paths the desk cannot access at all (glob patterns) */
   blocked?: string[];
+  /** Keep full Bash when writable or blocked paths are set (Bash can write anywhere and read blocked files) */
+  allow_bash?: boolean;
 }
 
 /**
@@ -48,12 +50,58 @@ export interface DeskKnowledge {
  * Session persistence configuration
  */
 export interface DeskPersistence {
-  /** How long to keep the session alive (hours) */
+  /** Hours without activity before a session expires (0 = never; default BRIDGE_SESSION_TTL_HOURS) */
   ttl_hours?: number;
-  /** Maximum concurrent sessions for this desk */
+  /** Maximum active (unexpired) sessions for this desk; new threads are refused at the limit */
   max_concurrent?: number;
 }
 
+/**
+ * Execution limits for the desk's Claude runs
+ */
+export interface DeskExecution {
+  /** Wall-clock limit for a single run (seconds) */
+  timeout_seconds?: number;
+  /** Kill the run if Claude produces no output for this long (seconds) */
+  idle_timeout_seconds?: number;
+}
+
+/**
+ * A single MCP server (same shape as an entry in .mcp.json "mcpServers")
+ */
+export interface McpServerConfig {
+  type?: 'stdio' | 'sse' | 'http';
+  /** stdio servers */
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** sse/http servers */
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * MCP servers available to the desk's sessions
+ */
+export interface DeskMcp {
+  /** Inline server definitions keyed by server name */
+  servers?: Record<string, McpServerConfig>;
+  /** MCP config files to include (JSON with an "mcpServers" object; relative to the desks dir) */
+  files?: string[];
+  /** Use only these servers, ignoring any from user/project settings (--strict-mcp-config) */
+  strict?: boolean;
+}
+
+/**
+ * Inter-desk call permissions (absent = may call any desk and accepts calls)
+ */
+export interface DeskDelegation {
+  /** Which desks this desk can call (empty = all) */
+  can_call?: string[];
+  /** Whether this desk can receive delegated work (default: true) */
+  accepts_delegations?: boolean;
+}
+
 /**
  * Complete desk definition (as stored in YAML)
  */
@@ -67,6 +115,15 @@ export interface DeskDefinition {
   knowledge: DeskKnowledge;
   system_prompt_suffix?: string;
   persistence: DeskPersistence;
+  execution?: DeskExecution;
+  /** Model for this desk's sessions (e.g. "opus") */
+  model?: string;
+  /** Models to try in order when the primary is overloaded or rate-limited */
+  fallback_models?: string[];
+  mcp?: DeskMcp;
+  /** Response format: structured, concise, report, or raw */
+  output_style?: string;
+  delegation?: DeskDelegation;
 }
 
 /**
@@ -78,6 +135,12 @@ export interface DeskDefaults {
   knowledge?: DeskKnowledge;
   system_prompt_suffix?: string;
   persistence?: DeskPersistence;
+  execution?: DeskExecution;
+  model?: string;
+  fallback_models?: string[];
+  mcp?: DeskMcp;
+  output_style?: string;
+  delegation?: DeskDelegation;
 }
 
 /**
@@ -101,3 +164,44 @@ export interface DeskRouteResult {
   /** The specific @mention that matched */
   matchedMention: string;
 }
+
+/** Inter-desk communication pattern */
+export type DeskCallMode = 'delegate' | 'consult' | 'pipeline';
+
+/**
+ * Inter-desk communication request (POST /call-desk body)
+ */
+export interface DeskCallRequest {
+  /** The calling session (optional; the run token decides) */
+  sourceSessionId?: string;
+  /** Target desk slug */
+  targetDesk: string;
+  /** The message/task to send */
+  message: string;
+  /** Communication pattern */
+  mode: DeskCallMode;
+  /** For pipeline: next desks in sequence */
+  pipelineNext?: string[];
+  /** Context from the original user thread */
+  originContext?: {
+    channelId: string;
+    threadTs: string;
+    summary: string;
+  };
+}
+
+/**
+ * Inter-desk communication response
+ */
+export interface DeskCallResponse {
+  ok: boolean;
+  /** Correlation ID, logged through the whole call */
+  callId?: string;
+  /** The #agent-comms thread where the exchange happens */
+  commsThreadTs?: string;
+  commsChannelId?: string;
+  /** For consultation and pipeline: the response text from the (last) target desk */
+  response?: string;
+  /** Error message if failed */
+  error?: string;
+}
@@ -4,3 +4,5 @@ export * from './usage';
 export * from './files';
 export * from './desk';
 export * from './slack';
+export * from './stream';
+export * from './bridge-api';
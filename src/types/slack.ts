@@ -32,6 +32,22 @@ export interface SlackButton {
   style?: 'primary' | 'danger';
 }
 
+/**
+ * Slack Block Kit static select menu element
+ */
+export interface SlackStaticSelect {
+  type: 'static_select';
+  action_id: string;
+  placeholder: {
+    type: 'plain_text';
+    text: string;
+  };
+  options: Array<{
+    text: { type: 'plain_text'; text: string };
+    value: string;
+  }>;
+}
+
 /**
  * Slack Block Kit block types used by the bridge
  */
@@ -45,12 +61,50 @@ export type SlackBlock =
     }
   | {
       type: 'actions';
-      elements: SlackButton[];
+      elements: Array<SlackButton | SlackStaticSelect>;
     }
   | {
       type: 'divider';
     };
 
+/**
+ * A file reference in thread history (download on demand via POST /download-file)
+ */
+export interface ThreadHistoryFile {
+  id: string;
+  name: string;
+  mimetype: string;
+  size: number;
+  filetype?: string;
+}
+
+/**
+ * A thread message as returned by GET /thread-history
+ */
+export interface ThreadHistoryMessage {
+  ts: string;
+  /** ISO8601 version of ts */
+  postedAt: string;
+  userId?: string;
+  /** Display name (or the bot's name for bot messages) */
+  author: string;
+  isBot: boolean;
+  text: string;
+  /** Set when the message was edited after posting */
+  editedAt?: string;
+  files: ThreadHistoryFile[];
+  reactions: Array<{ name: string; count: number }>;
+}
+
+/**
+ * One page of thread history
+ */
+export interface ThreadHistoryPage {
+  messages: ThreadHistoryMessage[];
+  /** Pass as ?cursor= for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
 /**
  * Supported file extensions for inbound downloads
  */
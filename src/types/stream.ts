@@ -0,0 +1,125 @@
+// Claude CLI stream-json event model (`claude -p --output-format stream-json`)
+
+/**
+ * Content blocks inside assistant and user messages
+ */
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+}
+
+export interface ToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+export type ContentBlock = TextBlock | ThinkingBlock | ToolUseBlock | ToolResultBlock;
+
+/**
+ * Token usage as reported by the API (per message, or totals on the result event)
+ */
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * First event of every run: session and environment details
+ */
+export interface SystemInitEvent {
+  type: 'system';
+  subtype: 'init';
+  session_id: string;
+  model?: string;
+  cwd?: string;
+  tools?: string[];
+  mcp_servers?: Array<{ name: string; status: string }>;
+  permissionMode?: string;
+}
+
+/**
+ * Other system notices (e.g. context compaction)
+ */
+export interface SystemNoticeEvent {
+  type: 'system';
+  subtype: 'compact_boundary' | 'status' | 'hook_response';
+  session_id?: string;
+}
+
+export interface AssistantEvent {
+  type: 'assistant';
+  session_id: string;
+  parent_tool_use_id?: string | null;
+  message: {
+    id?: string;
+    role: 'assistant';
+    model?: string;
+    content: ContentBlock[];
+    usage?: TokenUsage;
+    stop_reason?: string | null;
+  };
+}
+
+/**
+ * User turn — in a headless run these carry tool results back to the model
+ */
+export interface UserEvent {
+  type: 'user';
+  session_id: string;
+  parent_tool_use_id?: string | null;
+  message: {
+    role: 'user';
+    content: ContentBlock[] | string;
+  };
+}
+
+export interface ToolResultEvent {
+  type: 'tool_result';
+  session_id?: string;
+  tool_use_id: string;
+  content?: ToolResultBlock['content'];
+  is_error?: boolean;
+}
+
+/**
+ * Final event of every run: outcome, cost, and total token usage
+ */
+export interface ResultEvent {
+  type: 'result';
+  subtype: 'success' | 'error_max_turns' | 'error_during_execution';
+  session_id: string;
+  is_error: boolean;
+  result?: string;
+  duration_ms?: number;
+  duration_api_ms?: number;
+  num_turns?: number;
+  total_cost_usd?: number;
+  /** Older CLI versions report cost under this name */
+  cost_usd?: number;
+  usage?: TokenUsage;
+}
+
+export type SystemEvent = SystemInitEvent | SystemNoticeEvent;
+
+export type StreamEvent =
+  | SystemEvent
+  | AssistantEvent
+  | UserEvent
+  | ToolResultEvent
+  | ResultEvent;
@@ -1,12 +1,21 @@
 // Usage tracking types for rate limiting and cost control
 
+export interface TokenBreakdown {
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
+}
+
 export interface UsageRecord {
   userId: string;
   channelId: string;
   timestamp: string; // ISO8601
   category: string;
-  tokensUsed: number;
+  tokensUsed: number; // input + output + cache creation (cache reads excluded)
+  tokens?: TokenBreakdown;
   costUsd: number;
+  model?: string;
   sessionId: string;
   filesUploaded: string[];
   duration: number; // ms
@@ -15,6 +24,7 @@ export interface UsageRecord {
 export interface ChannelUsage {
   requests: number;
   tokens: number;
+  tokenBreakdown?: TokenBreakdown;
   costUsd: number;
 }
 
@@ -24,14 +34,10 @@ export interface DailyUsage {
   byChannel: Record<string, ChannelUsage>;
 }
 
+/** Legacy usage.json format (imported into SQLite by legacy-import) */
 export interface UsageStore {
   records: UsageRecord[];
   dailySummaries: Record<string, DailyUsage>;
   hourlyBuckets: Record<string, number>; // "channelId:YYYY-MM-DDTHH" -> count
 }
 
-export const EMPTY_USAGE_STORE: UsageStore = {
-  records: [],
-  dailySummaries: {},
-  hourlyBuckets: {},
-};
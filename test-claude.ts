@@ -1,7 +1,7 @@
 #!/usr/bin/env bun
 // Test the Claude spawner independently
 
-import { executeClaude, executeClaudeStreaming, extractText } from './src/services/claude';
+import { executeClaude, executeClaudeStreaming, extractText, getResultCost } from './src/services/claude';
 
 const testMessage = process.argv[2] || 'Say hello in 10 words or less';
 
@@ -16,16 +16,22 @@ let fullText = '';
 for await (const event of executeClaudeStreaming(testMessage, { model: 'haiku' })) {
   if (event.type === 'system' && event.subtype === 'init') {
     console.log(`Session: ${event.session_id}`);
-  } else if (event.type === 'assistant' && event.message?.content) {
+  } else if (event.type === 'assistant') {
     const text = extractText(event.message.content);
     if (text && text !== fullText) {
       process.stdout.write(`\rResponse: ${text.slice(0, 80)}...`);
       fullText = text;
     }
-  } else if (event.type === 'tool_use') {
-    console.log(`\n[Tool: ${event.tool}]`);
+    for (const block of event.message.content) {
+      if (block.type === 'tool_use') {
+        console.log(`\n[Tool: ${block.name}]`);
+      }
+    }
   } else if (event.type === 'result') {
-    console.log(`\n\nCost: $${event.cost_usd?.toFixed(4) || 'unknown'}`);
+    console.log(`\n\nCost: $${getResultCost(event).toFixed(4)}`);
+    if (event.usage) {
+      console.log(`Tokens: ${event.usage.input_tokens ?? 0} in / ${event.usage.output_tokens ?? 0} out`);
+    }
   }
 }
 